@@ -1,13 +1,124 @@
 import type { Htmlparser2TreeAdapterMap } from "parse5-htmlparser2-tree-adapter";
 
-import { parseFragment, serialize } from "parse5";
+import {
+  html as htmlSpec,
+  parse,
+  parseFragment,
+  serialize,
+  Tokenizer,
+  TokenizerMode,
+} from "parse5";
 import { adapter } from "parse5-htmlparser2-tree-adapter";
 
-import type { SanitizerOptions } from "./types/sanitizer";
+import type { SanitizationReport, SanitizationViolation } from "./types/report";
+import type {
+  Sanitizer,
+  SanitizerOptions,
+  SanitizerState,
+} from "./types/sanitizer";
 
-import { handleTagChildrenError } from "./lib/handlers/direct";
+import { compileSanitizerOptions, mayThrow } from "./lib/compile";
+import { handleTagChildrenError, withNonTextTags } from "./lib/handlers/direct";
+import { withViolationReporter } from "./lib/report";
 import { walkNode } from "./lib/walker";
 
+export {
+  AttributeSanitizationError,
+  LimitSanitizationError,
+  SanitizationError,
+  TagSanitizationError,
+} from "./lib/errors";
+export { mergeSanitizerOptions } from "./lib/merge";
+export { extendPreset, presets } from "./lib/presets";
+export { urlTransforms } from "./lib/transforms";
+export { validateSanitizerOptions } from "./lib/validation";
+export type {
+  SanitizationErrorCode,
+  SanitizationErrorLocation,
+} from "./types/errors";
+export type {
+  SanitizerOptionsOverride,
+  TagAttributeValueRuleOverride,
+  TagRuleOverride,
+  TagRulesOverride,
+} from "./types/merge";
+export type {
+  SanitizationAction,
+  SanitizationReport,
+  SanitizationViolation,
+  SanitizationViolationKind,
+} from "./types/report";
+export type { ContextElement, Sanitizer, TextOptions } from "./types/sanitizer";
+export type {
+  SanitizerOptionsDiagnostic,
+  SanitizerOptionsDiagnosticCode,
+  SanitizerOptionsDiagnosticSeverity,
+} from "./types/validation";
+
+// Context elements whose content is parsed as foreign content
+const contextNamespaces: Partial<Record<string, htmlSpec.NS>> = {
+  math: htmlSpec.NS.MATHML,
+  svg: htmlSpec.NS.SVG,
+};
+
+// Elements whose content is tokenized as text, as switched to by the parser
+const textModes: Partial<
+  Record<string, (typeof TokenizerMode)[keyof typeof TokenizerMode]>
+> = {
+  iframe: TokenizerMode.RAWTEXT,
+  noembed: TokenizerMode.RAWTEXT,
+  noframes: TokenizerMode.RAWTEXT,
+  noscript: TokenizerMode.RAWTEXT,
+  plaintext: TokenizerMode.PLAINTEXT,
+  script: TokenizerMode.SCRIPT_DATA,
+  style: TokenizerMode.RAWTEXT,
+  textarea: TokenizerMode.RCDATA,
+  title: TokenizerMode.RCDATA,
+  xmp: TokenizerMode.RAWTEXT,
+};
+
+/**
+ * Creates a reusable sanitizer from options that are compiled once upfront.
+ *
+ * Behaves like {@link sanitizeHtml} with the same options, but is faster when the same
+ * options are applied to many inputs: tag and attribute rules are turned into lookup
+ * tables, allowed value lists into set lookups and URL patterns are built ahead of time.
+ * Source locations are only tracked while parsing when some error handling may throw.
+ *
+ * @param options - Configuration options that define sanitization rules and behavior
+ * @returns A function sanitizing HTML strings with the compiled options
+ *
+ * @example
+ * ```typescript
+ * import { createSanitizer, presets } from './index';
+ *
+ * const sanitize = createSanitizer({
+ *   errorHandling: { tag: "unwrapElement", attribute: "discardAttribute" },
+ *   tags: presets.commentsSafe
+ * });
+ *
+ * for (const comment of comments) {
+ *   comment.html = sanitize(comment.html);
+ * }
+ * ```
+ *
+ * @throws {Error} Throws an error if a URL rule contains an invalid protocol or host
+ */
+export function createSanitizer(options: SanitizerOptions): Sanitizer {
+  const compiled = compileSanitizerOptions(options);
+  const sourceCodeLocationInfo = mayThrow(compiled);
+
+  return (html) => {
+    if (html === "") {
+      return "";
+    }
+
+    return withViolationReporter(compiled.onViolation, () =>
+      sanitizeSource(html, compiled, sourceCodeLocationInfo),
+    );
+  };
+}
+
 /**
  * Sanitizes HTML content by removing or modifying potentially dangerous elements and attributes.
  *
@@ -92,7 +203,7 @@ import { walkNode } from "./lib/walker";
  * console.log(sanitized); // '<p class="text-center">Hello World</p>'
  * ```
  *
- * @throws {Error} May throw errors if error handling is configured to "throwError" mode
+ * @throws {SanitizationError} May throw errors if error handling is configured to "throwError" mode
  * and validation failures occur during processing.
  */
 export function sanitizeHtml(html: string, options: SanitizerOptions): string {
@@ -100,18 +211,122 @@ export function sanitizeHtml(html: string, options: SanitizerOptions): string {
     return "";
   }
 
-  const frag: Htmlparser2TreeAdapterMap["documentFragment"] = parseFragment(
-    html,
-    { treeAdapter: adapter },
+  return withViolationReporter(options.onViolation, () =>
+    sanitizeSource(html, options, mayThrow(options)),
+  );
+}
+
+/**
+ * Sanitizes HTML content and reports every violation that was acted on.
+ *
+ * Behaves like {@link sanitizeHtml}, additionally collecting each violation resolved by the
+ * configured error handling: the node path, tag, attribute, offending value, rule kind and
+ * the action taken. Any `onViolation` callback in the options is still invoked.
+ *
+ * @param html - The HTML string to sanitize
+ * @param options - Configuration options that define sanitization rules and behavior
+ * @returns The sanitized HTML string along with the collected violations
+ *
+ * @example
+ * ```typescript
+ * import { sanitizeHtmlWithReport } from './index';
+ *
+ * const { html, violations } = sanitizeHtmlWithReport(
+ *   '<p class="lead huge">Hi<script>alert(1)</script></p>',
+ *   {
+ *     errorHandling: { attributeSetValue: "dropValue", tag: "discardElement" },
+ *     tags: {
+ *       p: { attributes: { class: { mode: "set", delimiter: " ", values: ["lead"] } } }
+ *     }
+ *   }
+ * );
+ * console.log(html); // '<p class="lead">Hi</p>'
+ * console.log(violations.map((v) => `${v.kind}:${v.action}`)); // ["attributeSetValue:dropValue", "tag:discardElement"]
+ * ```
+ *
+ * @throws {SanitizationError} May throw errors if error handling is configured to "throwError" mode
+ * and validation failures occur during processing.
+ */
+export function sanitizeHtmlWithReport(
+  html: string,
+  options: SanitizerOptions,
+): SanitizationReport {
+  const violations: SanitizationViolation[] = [];
+
+  const output = sanitizeHtml(html, {
+    ...options,
+    onViolation: (violation) => {
+      options.onViolation?.(violation);
+      violations.push(violation);
+    },
+  });
+
+  return { html: output, violations };
+}
+
+/**
+ * Parses a non-empty HTML string as a document or a fragment, depending on the mode.
+ *
+ * Fragments are parsed as the content of the context element when one is set, the way
+ * browsers parse markup assigned to its `innerHTML`.
+ *
+ * @param html - The HTML string to parse
+ * @param options - Configuration options that define sanitization rules and behavior
+ * @param sourceCodeLocationInfo - Whether to track source locations for error reporting
+ * @returns The parsed document or fragment
+ */
+function parseSource(
+  html: string,
+  options: SanitizerOptions,
+  sourceCodeLocationInfo: boolean,
+): Htmlparser2TreeAdapterMap["document"] {
+  if (options.mode === "document") {
+    return parse(html, { sourceCodeLocationInfo, treeAdapter: adapter });
+  }
+
+  if (options.contextElement) {
+    const { attributes = {}, tagName } = options.contextElement;
+    const context = adapter.createElement(
+      tagName,
+      contextNamespaces[tagName] ?? htmlSpec.NS.HTML,
+      Object.entries(attributes).map(([name, value]) => ({ name, value })),
+    );
+
+    return parseFragment(context, html, {
+      sourceCodeLocationInfo,
+      treeAdapter: adapter,
+    });
+  }
+
+  return parseFragment(html, { sourceCodeLocationInfo, treeAdapter: adapter });
+}
+
+/**
+ * Parses and sanitizes a non-empty HTML document or fragment.
+ *
+ * @param html - The HTML string to sanitize
+ * @param options - Configuration options that define sanitization rules and behavior
+ * @param sourceCodeLocationInfo - Whether to track source locations for error reporting
+ * @returns The sanitized HTML string
+ */
+function sanitizeSource(
+  html: string,
+  options: SanitizerOptions,
+  sourceCodeLocationInfo: boolean,
+): string {
+  const root = parseSource(
+    options.enforceHtmlBoundary ? trimToHtmlBoundary(html) : html,
+    options,
+    sourceCodeLocationInfo,
   );
 
   if (
     options.topLevelLimits?.children &&
-    frag.children.length > options.topLevelLimits.children
+    root.children.length > options.topLevelLimits.children
   ) {
     if (
       !handleTagChildrenError(
-        frag,
+        root,
         options.topLevelLimits.children,
         options.errorHandling?.tagChildren,
       )
@@ -120,12 +335,70 @@ export function sanitizeHtml(html: string, options: SanitizerOptions): string {
     }
   }
 
-  let child = frag.firstChild;
-  while (child) {
-    const next = child.nextSibling;
-    walkNode(child, options, { rootNesting: 0, tagNesting: [] });
-    child = next;
-  }
+  // Content of the context element counts towards its nesting limit
+  const state: SanitizerState = {
+    rootNesting: 0,
+    tagNesting:
+      options.contextElement && options.mode !== "document"
+        ? [{ key: options.contextElement.tagName, value: 0 }]
+        : [],
+    text: { length: 0 },
+  };
+
+  withNonTextTags(options.nonTextTags, () => {
+    let child = root.firstChild;
+    while (child) {
+      const next = child.nextSibling;
+      walkNode(child, options, state);
+      child = next;
+    }
+  });
+
+  return serialize(root, { treeAdapter: adapter });
+}
+
+/**
+ * Discards everything before the `<html>` start tag and after the `</html>` end tag.
+ *
+ * The tags are found by the tokenizer, switching to the text states of elements such as
+ * `<script>` like the parser does, so `<html>` in attribute values, comments or raw text
+ * is not mistaken for a tag.
+ *
+ * @param html - The HTML string to trim
+ * @returns The trimmed HTML string, unchanged when it has no `<html>` start tag
+ */
+function trimToHtmlBoundary(html: string): string {
+  let start: number | undefined;
+  let end: number | undefined;
+
+  const ignore = () => {};
+  const tokenizer: Tokenizer = new Tokenizer(
+    { sourceCodeLocationInfo: true },
+    {
+      onCharacter: ignore,
+      onComment: ignore,
+      onDoctype: ignore,
+      onEndTag(token) {
+        if (token.tagName === "html" && start !== undefined && token.location) {
+          end = token.location.endOffset;
+        }
+      },
+      onEof: ignore,
+      onNullCharacter: ignore,
+      onStartTag(token) {
+        if (token.tagName === "html") {
+          start ??= token.location?.startOffset;
+        } else {
+          const mode = textModes[token.tagName];
+          if (mode !== undefined) {
+            tokenizer.state = mode;
+          }
+        }
+      },
+      onWhitespaceCharacter: ignore,
+    },
+  );
+  tokenizer.write(html, true);
 
-  return serialize(frag, { treeAdapter: adapter });
+  return start === undefined ? html : html.slice(start, end);
 }
@@ -0,0 +1,216 @@
+import type { ReadonlyDeep } from "type-fest";
+
+import type { TagAttributeValueComparator } from "../types/comparators";
+import type { SanitizationViolationKind } from "../types/report";
+import type { TagAttributeValueRule } from "../types/rules";
+import type { ErrorHandling, SanitizerOptions } from "../types/sanitizer";
+import type { TagRule } from "../types/tag";
+
+import { getUrlValidator } from "./sanitizers";
+
+// The mode of each kind of violation whose error handling is unset
+const defaultErrorHandling: Required<ErrorHandling> = {
+  attribute: "throwError",
+  attributeCollectionValueTooMany: "throwError",
+  attributeRecordValue: "throwError",
+  attributeRecordValueDuplicate: "throwError",
+  attributeSetValue: "throwError",
+  attributeSrcsetValue: "throwError",
+  attributeStyleValue: "throwError",
+  attributeUrlValue: "throwError",
+  attributeValue: "throwError",
+  attributeValueTooLong: "throwError",
+  embedSource: "throwError",
+  scriptSource: "throwError",
+  tag: "throwError",
+  tagChildren: "throwError",
+  tagContent: "throwError",
+  tagFilter: "throwError",
+  tagNesting: "throwError",
+  textTooLong: "throwError",
+};
+
+// Results of mayThrow, per options object
+const mayThrowCache = new WeakMap<SanitizerOptions, boolean>();
+
+/**
+ * Precompiles sanitizer options into equivalent options that are faster to apply.
+ *
+ * The compiled options behave exactly like the original ones:
+ * - Tag and attribute rules are copied into prototype-free lookup tables, tag pattern rules
+ *   are compiled in place
+ * - Comparators listing allowed values are turned into set lookups
+ * - URL validators are built upfront, so invalid protocols, hosts or ports throw right away
+ *
+ * @param options - The sanitizer options to compile
+ * @returns The compiled sanitizer options
+ *
+ * @example
+ * ```typescript
+ * import { compileSanitizerOptions } from './compile';
+ *
+ * const compiled = compileSanitizerOptions({
+ *   tags: {
+ *     div: { attributes: { class: { mode: "set", delimiter: " ", values: ["row", "col"] } } }
+ *   }
+ * });
+ * // compiled.tags.div.attributes.class.values is now a set lookup
+ * ```
+ *
+ * @throws {Error} Throws an error if a URL rule contains an invalid protocol, host or port
+ */
+export function compileSanitizerOptions(
+  options: SanitizerOptions,
+): SanitizerOptions {
+  return {
+    ...options,
+    ...(options.globalAttributes && {
+      globalAttributes: compileEntries(
+        options.globalAttributes,
+        compileAttributeRule,
+      ),
+    }),
+    ...(options.tagPatterns && {
+      tagPatterns: options.tagPatterns.map(({ pattern, rule }) => ({
+        pattern,
+        rule: compileTagRule(rule),
+      })),
+    }),
+    ...(options.tags && {
+      tags: compileEntries(options.tags, compileTagRule),
+    }),
+  };
+}
+
+/**
+ * Checks whether sanitizing with the given options may throw a {@link SanitizationError}.
+ *
+ * Every kind of violation whose error handling resolves to `throwError`, unset kinds falling
+ * back to their default mode, may throw, including through the error handling overrides of
+ * tag and attribute rules. When none can, source locations are never reported and can be
+ * skipped while parsing. The result is cached per options object, which is expected not to
+ * change between calls.
+ *
+ * @param options - The sanitizer options to check
+ * @returns `true` if any violation may throw, `false` otherwise
+ *
+ * @example
+ * ```typescript
+ * import { mayThrow } from './compile';
+ *
+ * console.log(mayThrow({ errorHandling: { tag: "discardElement" } })); // true (other kinds throw)
+ * ```
+ */
+export function mayThrow(options: SanitizerOptions): boolean {
+  let result = mayThrowCache.get(options);
+  if (result === undefined) {
+    result = findThrowingErrorHandling(options);
+    mayThrowCache.set(options, result);
+  }
+
+  return result;
+}
+
+function compileAttributeRule(
+  rule: ReadonlyDeep<TagAttributeValueRule>,
+): ReadonlyDeep<TagAttributeValueRule> {
+  switch (rule.mode) {
+    case "record":
+      return {
+        ...rule,
+        values: compileEntries(rule.values, compileComparator),
+      };
+    case "set":
+      return { ...rule, values: compileComparator(rule.values) };
+    case "simple":
+      return { ...rule, value: compileComparator(rule.value) };
+    case "srcset":
+    case "url":
+      getUrlValidator(rule);
+      return rule;
+    case "style":
+      return {
+        ...rule,
+        properties: compileEntries(rule.properties, compileComparator),
+      };
+    default:
+      return rule;
+  }
+}
+
+function compileComparator(
+  cmp: TagAttributeValueComparator,
+): TagAttributeValueComparator {
+  if (!Array.isArray(cmp)) {
+    return cmp;
+  }
+
+  const values = new Set<string>(cmp);
+  return (value) => values.has(value);
+}
+
+// Copies a record into an object without prototype, so lookups never hit inherited keys
+function compileEntries<T, R>(
+  record: Readonly<Record<string, T>>,
+  compile: (value: T) => R,
+): Record<string, R> {
+  const output: Record<string, R> = Object.create(null);
+
+  for (const [key, value] of Object.entries(record)) {
+    output[key] = compile(value);
+  }
+
+  return output;
+}
+
+function compileTagRule(rule: ReadonlyDeep<TagRule>): ReadonlyDeep<TagRule> {
+  return {
+    ...rule,
+    ...(rule.attributePatterns && {
+      attributePatterns: rule.attributePatterns.map(({ pattern, rule }) => ({
+        pattern,
+        rule: compileAttributeRule(rule),
+      })),
+    }),
+    ...(rule.attributes && {
+      attributes: compileEntries(rule.attributes, compileAttributeRule),
+    }),
+  };
+}
+
+function findThrowingErrorHandling(options: SanitizerOptions): boolean {
+  const kinds = Object.keys(
+    defaultErrorHandling,
+  ) as SanitizationViolationKind[];
+
+  if (
+    kinds.some(
+      (kind) =>
+        (options.errorHandling?.[kind] ?? defaultErrorHandling[kind]) ===
+        "throwError",
+    )
+  ) {
+    return true;
+  }
+
+  // Overrides can only throw when set to throwError, unset keys are inherited
+  const tagRules = [
+    ...Object.values(options.tags ?? {}),
+    ...(options.tagPatterns ?? []).map(({ rule }) => rule),
+  ];
+  const attrRules = [
+    ...Object.values(options.globalAttributes ?? {}),
+    ...tagRules.flatMap((tagRule) => [
+      ...Object.values(tagRule.attributes ?? {}),
+      ...(tagRule.attributePatterns ?? []).map(({ rule }) => rule),
+    ]),
+  ];
+
+  return [...tagRules, ...attrRules].some((rule) =>
+    overridesThrow(rule.errorHandling),
+  );
+}
+
+function overridesThrow(errorHandling: ErrorHandling | undefined): boolean {
+  return Object.values(errorHandling ?? {}).includes("throwError");
+}
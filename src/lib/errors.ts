@@ -0,0 +1,148 @@
+import type { Htmlparser2TreeAdapterMap } from "parse5-htmlparser2-tree-adapter";
+
+import type {
+  SanitizationErrorCode,
+  SanitizationErrorLocation,
+} from "../types/errors";
+import type {
+  SanitizationViolationContext,
+  SanitizationViolationKind,
+} from "../types/report";
+
+// Error code for each kind of violation
+export const errorCodes: Record<
+  SanitizationViolationKind,
+  SanitizationErrorCode
+> = {
+  attribute: "ATTRIBUTE_NOT_ALLOWED",
+  attributeCollectionValueTooMany: "ATTRIBUTE_VALUE_TOO_MANY_ENTRIES",
+  attributeRecordValue: "ATTRIBUTE_RECORD_PAIR_NOT_ALLOWED",
+  attributeRecordValueDuplicate: "ATTRIBUTE_RECORD_DUPLICATE_KEY",
+  attributeSetValue: "ATTRIBUTE_SET_VALUE_NOT_ALLOWED",
+  attributeSrcsetValue: "ATTRIBUTE_SRCSET_CANDIDATE_NOT_ALLOWED",
+  attributeStyleValue: "ATTRIBUTE_STYLE_DECLARATION_NOT_ALLOWED",
+  attributeUrlValue: "ATTRIBUTE_URL_NOT_ALLOWED",
+  attributeValue: "ATTRIBUTE_VALUE_NOT_ALLOWED",
+  attributeValueTooLong: "ATTRIBUTE_VALUE_TOO_LONG",
+  embedSource: "EMBED_SOURCE_NOT_ALLOWED",
+  scriptSource: "SCRIPT_SOURCE_NOT_ALLOWED",
+  tag: "TAG_NOT_ALLOWED",
+  tagChildren: "CHILDREN_EXCEEDED",
+  tagContent: "TAG_CONTENT_NOT_ALLOWED",
+  tagFilter: "TAG_FILTERED",
+  tagNesting: "NESTING_EXCEEDED",
+  textTooLong: "TEXT_TOO_LONG",
+};
+
+/**
+ * Base class of every error thrown by the sanitizer when error handling is set to `throwError`.
+ *
+ * Carries a machine-readable {@link SanitizationErrorCode} along with the details of the
+ * violation, so callers can branch on it or localize the message.
+ *
+ * @example
+ * ```typescript
+ * import { SanitizationError } from './errors';
+ *
+ * try {
+ *   sanitizeHtml(input, options);
+ * } catch (error) {
+ *   if (error instanceof SanitizationError && error.code === "TAG_NOT_ALLOWED") {
+ *     return reply.status(400).send({ code: error.code, tag: error.tag });
+ *   }
+ *   throw error;
+ * }
+ * ```
+ */
+export class SanitizationError extends Error {
+  /** The attribute involved in the violation, if any */
+  readonly attribute?: string;
+  /** Machine-readable code identifying the violated rule */
+  readonly code: SanitizationErrorCode;
+  /** The kind of rule that was violated, matching the key in the error handling options */
+  readonly kind: SanitizationViolationKind;
+  /** The limit that was exceeded, such as a maximum length, entry count, children count or nesting level */
+  readonly limit?: number;
+  /** Where the offending element starts in the source HTML, if known */
+  readonly location?: SanitizationErrorLocation;
+  /** The tag name of the offending element, absent for the root */
+  readonly tag?: string;
+  /** The offending value, if any */
+  readonly value?: string;
+
+  constructor(
+    context: SanitizationViolationContext,
+    tag?: string,
+    location?: SanitizationErrorLocation,
+  ) {
+    super(context.message);
+    this.name = new.target.name;
+    this.attribute = context.attribute;
+    this.code = errorCodes[context.kind];
+    this.kind = context.kind;
+    this.limit = context.limit;
+    this.location = location;
+    this.tag = tag;
+    this.value = context.value;
+  }
+}
+
+/**
+ * Error thrown when an attribute, or part of its value, violates its rule.
+ */
+export class AttributeSanitizationError extends SanitizationError {}
+
+/**
+ * Error thrown when an element or the root exceeds its children or nesting limits.
+ */
+export class LimitSanitizationError extends SanitizationError {}
+
+/**
+ * Error thrown when a tag is not allowed.
+ */
+export class TagSanitizationError extends SanitizationError {}
+
+/**
+ * Creates the error matching the kind of a violation found on a node.
+ *
+ * @param node - The element (or root) the violation was found on
+ * @param context - The violation context created by the most specific handler
+ * @returns The error to throw
+ *
+ * @example
+ * ```typescript
+ * import { createSanitizationError } from './errors';
+ *
+ * throw createSanitizationError(element, {
+ *   kind: "tag",
+ *   message: `Tag ${element.tagName} is not allowed`,
+ * });
+ * ```
+ */
+export function createSanitizationError(
+  node: Htmlparser2TreeAdapterMap["parentNode"],
+  context: SanitizationViolationContext,
+): SanitizationError {
+  const tag = "tagName" in node ? node.tagName : undefined;
+  const location = node.sourceCodeLocation
+    ? {
+        column: node.sourceCodeLocation.startCol,
+        line: node.sourceCodeLocation.startLine,
+        offset: node.sourceCodeLocation.startOffset,
+      }
+    : undefined;
+
+  switch (context.kind) {
+    case "scriptSource":
+    case "tag":
+    case "tagContent":
+    case "tagFilter":
+      return new TagSanitizationError(context, tag, location);
+    case "tagChildren":
+    case "tagNesting":
+    case "textTooLong":
+      return new LimitSanitizationError(context, tag, location);
+    default:
+      return new AttributeSanitizationError(context, tag, location);
+  }
+}
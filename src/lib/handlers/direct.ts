@@ -4,23 +4,131 @@ import type { ReadonlyDeep } from "type-fest";
 import { adapter } from "parse5-htmlparser2-tree-adapter";
 
 import type {
+  EmbedSourceErrorHandlingMode,
+  ScriptSourceErrorHandlingMode,
   TagAttributeErrorHandlingMode,
   TagAttributeRecordValueErrorHandlingMode,
   TagAttributeSetValueErrorHandlingMode,
+  TagAttributeSrcsetValueErrorHandlingMode,
+  TagAttributeStyleValueErrorHandlingMode,
+  TagAttributeUrlValueErrorHandlingMode,
   TagAttributeValueErrorHandlingMode,
   TagAttributeValueTooLongErrorHandlingMode,
   TagChildrenErrorHandlingMode,
+  TagContentErrorHandlingMode,
   TagErrorHandlingMode,
   TagNestingErrorHandlingMode,
+  TextTooLongErrorHandlingMode,
 } from "../../types/error-handling";
+import type { SanitizationViolationContext } from "../../types/report";
 import type {
   TagAttributeRecordValueRule,
   TagAttributeSetValueRule,
+  TagAttributeSrcsetValueRule,
+  TagAttributeStyleValueRule,
+  TagAttributeUrlValueRule,
   TagAttributeValueRule,
 } from "../../types/rules";
-import type { TagAttribute } from "../../types/tag";
+import type {
+  TagAttribute,
+  TagAttributeValueCandidate,
+  TagAttributeValueDeclaration,
+  TagKey,
+} from "../../types/tag";
+
+import { createSanitizationError } from "../errors";
+import { escapeInParent, unwrapInParent, wrapInParent } from "../helpers";
+import { reportViolation } from "../report";
+
+// Tags whose content is not meant to be displayed as text
+const defaultNonTextTags: readonly TagKey[] = [
+  "noscript",
+  "script",
+  "style",
+  "textarea",
+];
+
+// Non-text tags of the active sanitization runs, innermost run last
+const nonTextTagLists: (readonly TagKey[])[] = [];
 
-import { unwrapInParent } from "../helpers";
+/**
+ * Handles embedded content sources outside the embed policy of their tag.
+ *
+ * This function delegates to {@link handleTagAttributeError}, reporting the violation as an
+ * embed source violation so the source attribute or the whole element can be removed.
+ *
+ * @param attribute - The attribute holding the source
+ * @param element - The embedding element
+ * @param errorHandlingMode - The error handling strategy to apply
+ * @returns `true` if processing should continue, `false` if the element was removed
+ *
+ * @example
+ * ```typescript
+ * import { handleEmbedSourceError } from './handlers/direct';
+ *
+ * // <iframe src="https://evil.com/player"> with YouTube only allowed
+ * const result = handleEmbedSourceError(
+ *   { key: "src", value: "https://evil.com/player" },
+ *   element,
+ *   "discardElement"
+ * );
+ * console.log(result); // false - element was removed
+ * ```
+ *
+ * @throws {SanitizationError} Throws an error if `errorHandlingMode` is "throwError"
+ */
+export function handleEmbedSourceError(
+  attribute: TagAttribute,
+  element: Htmlparser2TreeAdapterMap["element"],
+  errorHandlingMode?: EmbedSourceErrorHandlingMode,
+): boolean {
+  return handleTagAttributeError(attribute, element, errorHandlingMode, {
+    attribute: attribute.key,
+    kind: "embedSource",
+    message: `Source ${attribute.value} of ${element.tagName} is not allowed`,
+    value: attribute.value,
+  });
+}
+
+/**
+ * Handles scripts outside the script policy of their tag.
+ *
+ * This function delegates to {@link handleTagError}, reporting the violation as a script
+ * source violation along with the source of the script, if any.
+ *
+ * @param element - The script element
+ * @param message - A description of the violation
+ * @param errorHandlingMode - The error handling strategy to apply
+ * @returns Always returns `false` since the element is removed or the error is thrown
+ *
+ * @example
+ * ```typescript
+ * import { handleScriptSourceError } from './handlers/direct';
+ *
+ * // <script>alert(1)</script>
+ * const result = handleScriptSourceError(
+ *   element,
+ *   "Script without a source is not allowed",
+ *   "discardElement"
+ * );
+ * console.log(result); // false - element was removed
+ * ```
+ *
+ * @throws {SanitizationError} Throws an error if `errorHandlingMode` is "throwError"
+ */
+export function handleScriptSourceError(
+  element: Htmlparser2TreeAdapterMap["element"],
+  message: string,
+  errorHandlingMode?: ScriptSourceErrorHandlingMode,
+): boolean {
+  const src = element.attribs.src;
+
+  return handleTagError(element, errorHandlingMode, {
+    kind: "scriptSource",
+    message,
+    ...(src !== undefined && { attribute: "src", value: src }),
+  });
+}
 
 /**
  * Handles errors related to tag attributes by applying the specified error handling strategy.
@@ -31,7 +139,7 @@ import { unwrapInParent } from "../helpers";
  * @param attribute - The attribute that caused the error
  * @param element - The HTML element containing the attribute
  * @param errorHandlingMode - The error handling strategy to apply
- * @param errorMessage - Optional custom error message for logging/throwing
+ * @param violation - Optional violation context passed along by a more specific handler
  * @returns `true` if processing should continue, `false` if the element was removed
  *
  * @example
@@ -51,24 +159,28 @@ import { unwrapInParent } from "../helpers";
  * console.log(result); // true - processing continues
  * ```
  *
- * @throws {Error} Throws an error if `errorHandlingMode` is "throwError" or falls back to tag-level handling
+ * @throws {SanitizationError} Throws an error if `errorHandlingMode` is "throwError" or falls back to tag-level handling
  */
 export function handleTagAttributeError(
   attribute: TagAttribute,
   element: Htmlparser2TreeAdapterMap["element"],
   errorHandlingMode?: TagAttributeErrorHandlingMode,
-  errorMessage?: string,
+  violation?: SanitizationViolationContext,
 ): boolean {
+  const context = violation ?? {
+    attribute: attribute.key,
+    kind: "attribute",
+    message: `Attribute ${attribute.key} is not allowed`,
+    value: attribute.value,
+  };
+
   switch (errorHandlingMode) {
     case "discardAttribute":
+      reportViolation(element, context, "discardAttribute");
       delete element.attribs[attribute.key];
       return true;
     default:
-      return handleTagError(
-        element,
-        errorHandlingMode,
-        errorMessage ?? `Attribute ${attribute.key} is not allowed`,
-      );
+      return handleTagError(element, errorHandlingMode, context);
   }
 }
 
@@ -85,7 +197,7 @@ export function handleTagAttributeError(
  * @param index - The index of the problematic pair in the record
  * @param rule - The validation rule that was violated
  * @param errorHandlingMode - The error handling strategy to apply
- * @param errorMessage - Optional custom error message for logging/throwing
+ * @param violation - Optional violation context passed along by a more specific handler
  * @returns `true` if processing should continue, `false` if the element was removed
  *
  * @example
@@ -119,10 +231,19 @@ export function handleTagAttributeRecordValueError(
   index: number,
   rule: ReadonlyDeep<TagAttributeRecordValueRule>,
   errorHandlingMode?: TagAttributeRecordValueErrorHandlingMode,
-  errorMessage?: string,
+  violation?: SanitizationViolationContext,
 ): boolean {
+  const { key, val } = record[index];
+  const context = violation ?? {
+    attribute: attribute.key,
+    kind: "attributeRecordValue",
+    message: `Pair ${key}=${val} for attribute ${attribute.key} is not allowed`,
+    value: `${key}${rule.keyValueSeparator}${val}`,
+  };
+
   switch (errorHandlingMode) {
     case "dropPair":
+      reportViolation(element, context, "dropPair");
       return true;
     default:
       return handleTagAttributeValueError(
@@ -130,8 +251,7 @@ export function handleTagAttributeRecordValueError(
         element,
         rule,
         errorHandlingMode,
-        errorMessage ??
-          `Pair ${record[index].key}=${record[index].val} for attribute ${attribute.key} is not allowed`,
+        context,
       );
   }
 }
@@ -149,7 +269,7 @@ export function handleTagAttributeRecordValueError(
  * @param set - The array of values being validated
  * @param rule - The validation rule that was violated
  * @param errorHandlingMode - The error handling strategy to apply
- * @param errorMessage - Optional custom error message for logging/throwing
+ * @param violation - Optional violation context passed along by a more specific handler
  * @returns `true` if processing should continue, `false` if the element was removed
  *
  * @example
@@ -179,10 +299,89 @@ export function handleTagAttributeSetValueError(
   set: string[],
   rule: ReadonlyDeep<TagAttributeSetValueRule>,
   errorHandlingMode?: TagAttributeSetValueErrorHandlingMode,
-  errorMessage?: string,
+  violation?: SanitizationViolationContext,
 ): boolean {
+  const context = violation ?? {
+    attribute: attribute.key,
+    kind: "attributeSetValue",
+    message: `Value ${set[index]} for attribute ${attribute.key} is not allowed`,
+    value: set[index],
+  };
+
   switch (errorHandlingMode) {
     case "dropValue":
+      reportViolation(element, context, "dropValue");
+      return true;
+    default:
+      return handleTagAttributeValueError(
+        attribute,
+        element,
+        rule,
+        errorHandlingMode,
+        context,
+      );
+  }
+}
+
+/**
+ * Handles errors in tag attribute srcset values by applying the specified error handling mode.
+ *
+ * This function processes errors that occur when validating the image candidates of a
+ * `srcset` attribute. It can either remove the problematic candidate or escalate to
+ * attribute value-level handling.
+ *
+ * @param attribute - The attribute containing the candidates
+ * @param element - The HTML element containing the attribute
+ * @param candidates - The array of parsed candidates being validated
+ * @param index - The index of the problematic candidate
+ * @param rule - The validation rule that was violated
+ * @param errorHandlingMode - The error handling strategy to apply
+ * @param violation - Optional violation context passed along by a more specific handler
+ * @returns `true` if processing should continue, `false` if the element was removed
+ *
+ * @example
+ * ```typescript
+ * import { handleTagAttributeSrcsetValueError } from './handlers/direct';
+ *
+ * const attribute: TagAttribute = { key: "srcset", value: "a.png 1x, javascript:x 2x" };
+ * const element = document.createElement("img");
+ * const candidates = [
+ *   { descriptors: "1x", url: "a.png" },
+ *   { descriptors: "2x", url: "javascript:x" } // This candidate is problematic
+ * ];
+ *
+ * // Remove the problematic candidate and continue
+ * const result = handleTagAttributeSrcsetValueError(
+ *   attribute,
+ *   element,
+ *   candidates,
+ *   1, // index of the problematic candidate
+ *   rule,
+ *   "dropCandidate"
+ * );
+ * ```
+ */
+export function handleTagAttributeSrcsetValueError(
+  attribute: TagAttribute,
+  element: Htmlparser2TreeAdapterMap["element"],
+  candidates: TagAttributeValueCandidate[],
+  index: number,
+  rule: ReadonlyDeep<TagAttributeSrcsetValueRule>,
+  errorHandlingMode?: TagAttributeSrcsetValueErrorHandlingMode,
+  violation?: SanitizationViolationContext,
+): boolean {
+  const { descriptors, url } = candidates[index];
+  const candidate = descriptors ? `${url} ${descriptors}` : url;
+  const context = violation ?? {
+    attribute: attribute.key,
+    kind: "attributeSrcsetValue",
+    message: `Candidate ${candidate} for attribute ${attribute.key} is not allowed`,
+    value: candidate,
+  };
+
+  switch (errorHandlingMode) {
+    case "dropCandidate":
+      reportViolation(element, context, "dropCandidate");
       return true;
     default:
       return handleTagAttributeValueError(
@@ -190,12 +389,140 @@ export function handleTagAttributeSetValueError(
         element,
         rule,
         errorHandlingMode,
-        errorMessage ??
-          `Value ${set[index]} for attribute ${attribute.key} is not allowed`,
+        context,
       );
   }
 }
 
+/**
+ * Handles errors related to individual declarations in style tag attributes.
+ *
+ * This function processes errors that occur when validating the CSS declarations
+ * of a `style` attribute. It can either remove the problematic declaration or
+ * escalate to attribute value-level handling.
+ *
+ * @param attribute - The attribute containing the declarations
+ * @param element - The HTML element containing the attribute
+ * @param declarations - The array of parsed declarations being validated
+ * @param index - The index of the problematic declaration
+ * @param rule - The validation rule that was violated
+ * @param errorHandlingMode - The error handling strategy to apply
+ * @param violation - Optional violation context passed along by a more specific handler
+ * @returns `true` if processing should continue, `false` if the element was removed
+ *
+ * @example
+ * ```typescript
+ * import { handleTagAttributeStyleValueError } from './handlers/direct';
+ * import type { TagAttributeStyleValueErrorHandlingMode } from '../types/error-handling';
+ *
+ * const attribute: TagAttribute = { key: "style", value: "color:red;position:fixed" };
+ * const element = document.createElement("div");
+ * const declarations = [
+ *   { important: false, key: "color", val: "red" },
+ *   { important: false, key: "position", val: "fixed" } // This declaration is problematic
+ * ];
+ *
+ * // Remove the problematic declaration and continue
+ * const result = handleTagAttributeStyleValueError(
+ *   attribute,
+ *   element,
+ *   declarations,
+ *   1, // index of the problematic declaration
+ *   rule,
+ *   "dropDeclaration"
+ * );
+ * ```
+ */
+export function handleTagAttributeStyleValueError(
+  attribute: TagAttribute,
+  element: Htmlparser2TreeAdapterMap["element"],
+  declarations: TagAttributeValueDeclaration[],
+  index: number,
+  rule: ReadonlyDeep<TagAttributeStyleValueRule>,
+  errorHandlingMode?: TagAttributeStyleValueErrorHandlingMode,
+  violation?: SanitizationViolationContext,
+): boolean {
+  const { key, val } = declarations[index];
+  const context = violation ?? {
+    attribute: attribute.key,
+    kind: "attributeStyleValue",
+    message: `Declaration ${key}:${val} for attribute ${attribute.key} is not allowed`,
+    value: `${key}:${val}`,
+  };
+
+  switch (errorHandlingMode) {
+    case "dropDeclaration":
+      reportViolation(element, context, "dropDeclaration");
+      return true;
+    default:
+      return handleTagAttributeValueError(
+        attribute,
+        element,
+        rule,
+        errorHandlingMode,
+        context,
+      );
+  }
+}
+
+/**
+ * Handles errors related to URL values in tag attributes.
+ *
+ * This function processes errors that occur when a URL attribute value does not match
+ * the allowed protocols and hosts. It escalates to attribute value-level handling with
+ * a URL-specific error message.
+ *
+ * @param attribute - The attribute containing the URL
+ * @param element - The HTML element containing the attribute
+ * @param rule - The validation rule that was violated
+ * @param errorHandlingMode - The error handling strategy to apply
+ * @param violation - Optional violation context passed along by a more specific handler
+ * @returns `true` if processing should continue, `false` if the element was removed
+ *
+ * @example
+ * ```typescript
+ * import { handleTagAttributeUrlValueError } from './handlers/direct';
+ * import type { TagAttributeUrlValueErrorHandlingMode } from '../types/error-handling';
+ *
+ * const attribute: TagAttribute = { key: "href", value: "javascript:alert(1)" };
+ * const element = document.createElement("a");
+ * const rule = {
+ *   mode: "url",
+ *   protocols: ["https"],
+ *   defaultValue: "https://example.com"
+ * };
+ *
+ * // Apply default value and continue
+ * const result = handleTagAttributeUrlValueError(
+ *   attribute,
+ *   element,
+ *   rule,
+ *   "applyDefaultValue"
+ * );
+ * // element.attribs.href is now "https://example.com"
+ * ```
+ */
+export function handleTagAttributeUrlValueError(
+  attribute: TagAttribute,
+  element: Htmlparser2TreeAdapterMap["element"],
+  rule: ReadonlyDeep<TagAttributeUrlValueRule>,
+  errorHandlingMode?: TagAttributeUrlValueErrorHandlingMode,
+  violation?: SanitizationViolationContext,
+): boolean {
+  return handleTagAttributeValueError(
+    attribute,
+    element,
+    rule,
+    errorHandlingMode,
+    violation ?? {
+      attribute: attribute.key,
+      kind: "attributeUrlValue",
+      message: `URL ${attribute.value} for attribute ${attribute.key} is not allowed`,
+      value: attribute.value,
+    },
+  );
+}
+
 /**
  * Handles errors related to attribute values by applying default values or escalating to attribute-level handling.
  *
@@ -206,7 +533,7 @@ export function handleTagAttributeSetValueError(
  * @param element - The HTML element containing the attribute
  * @param rule - The validation rule that was violated
  * @param errorHandlingMode - The error handling strategy to apply
- * @param errorMessage - Optional custom error message for logging/throwing
+ * @param violation - Optional violation context passed along by a more specific handler
  * @returns `true` if processing should continue, `false` if the element was removed
  *
  * @example
@@ -237,10 +564,18 @@ export function handleTagAttributeValueError(
   element: Htmlparser2TreeAdapterMap["element"],
   rule: ReadonlyDeep<TagAttributeValueRule>,
   errorHandlingMode?: TagAttributeValueErrorHandlingMode,
-  errorMessage?: string,
+  violation?: SanitizationViolationContext,
 ): boolean {
+  const context = violation ?? {
+    attribute: attribute.key,
+    kind: "attributeValue",
+    message: `Value ${attribute.value} for attribute ${attribute.key} is not allowed`,
+    value: attribute.value,
+  };
+
   switch (errorHandlingMode) {
     case "applyDefaultValue":
+      reportViolation(element, context, "applyDefaultValue");
       if (rule.defaultValue) {
         element.attribs[attribute.key] = rule.defaultValue;
       } else {
@@ -252,8 +587,7 @@ export function handleTagAttributeValueError(
         attribute,
         element,
         errorHandlingMode,
-        errorMessage ??
-          `Value ${attribute.value} for attribute ${attribute.key} is not allowed`,
+        context,
       );
   }
 }
@@ -268,7 +602,7 @@ export function handleTagAttributeValueError(
  * @param element - The HTML element containing the attribute
  * @param rule - The validation rule containing the length limit
  * @param errorHandlingMode - The error handling strategy to apply
- * @param errorMessage - Optional custom error message for logging/throwing
+ * @param violation - Optional violation context passed along by a more specific handler
  * @returns `true` if processing should continue, `false` if the element was removed
  *
  * @example
@@ -299,10 +633,19 @@ export function handleTagAttributeValueTooLongError(
   element: Htmlparser2TreeAdapterMap["element"],
   rule: ReadonlyDeep<TagAttributeValueRule>,
   errorHandlingMode?: TagAttributeValueTooLongErrorHandlingMode,
-  errorMessage?: string,
+  violation?: SanitizationViolationContext,
 ): boolean {
+  const context = violation ?? {
+    attribute: attribute.key,
+    kind: "attributeValueTooLong",
+    limit: rule.maxLength,
+    message: `Value ${attribute.value} for attribute ${attribute.key} is too long`,
+    value: attribute.value,
+  };
+
   switch (errorHandlingMode) {
     case "trimExcess":
+      reportViolation(element, context, "trimExcess");
       element.attribs[attribute.key] = attribute.value.slice(0, rule.maxLength);
       return true;
     default:
@@ -311,8 +654,7 @@ export function handleTagAttributeValueTooLongError(
         element,
         rule,
         errorHandlingMode,
-        errorMessage ??
-          `Value ${attribute.value} for attribute ${attribute.key} is too long`,
+        context,
       );
   }
 }
@@ -350,7 +692,7 @@ export function handleTagAttributeValueTooLongError(
  * console.log(element.children.length); // 5
  * ```
  *
- * @throws {Error} Throws an error if `errorHandlingMode` is "throwError"
+ * @throws {SanitizationError} Throws an error if `errorHandlingMode` is "throwError"
  */
 export function handleTagChildrenError(
   element:
@@ -362,13 +704,23 @@ export function handleTagChildrenError(
   const { children } = element;
   const len = children.length;
   const excess = Math.max(0, len - maxChildren);
+  const context: SanitizationViolationContext = {
+    kind: "tagChildren",
+    limit: maxChildren,
+    message:
+      "tagName" in element
+        ? `Tag ${element.tagName} has exceeded the maximum allowed number of children of ${maxChildren}`
+        : `Root has exceeded the maximum allowed number of children of ${maxChildren}`,
+  };
 
   switch (errorHandlingMode) {
     case "discardElement": {
+      reportViolation(element, context, "discardElement");
       adapter.detachNode(element);
       return false;
     }
     case "discardFirsts": {
+      reportViolation(element, context, "discardFirsts");
       if (excess > 0) {
         for (let i = 0; i < excess; i++) {
           const first = element.children[0];
@@ -380,6 +732,7 @@ export function handleTagChildrenError(
       return true;
     }
     case "discardLasts": {
+      reportViolation(element, context, "discardLasts");
       if (excess > 0) {
         for (let i = 0; i < excess; i++) {
           const last = element.children[element.children.length - 1];
@@ -392,15 +745,62 @@ export function handleTagChildrenError(
     }
     case "throwError":
     default:
-      if ("tagName" in element) {
-        throw new Error(
-          `Tag ${element.tagName} has exceeded the maximum allowed number of children of ${maxChildren}`,
-        );
-      } else {
-        throw new Error(
-          `Root has exceeded the maximum allowed number of children of ${maxChildren}`,
-        );
+      throw createSanitizationError(element, context);
+  }
+}
+
+/**
+ * Handles elements violating the content model of their tag or ancestors.
+ *
+ * This function processes elements placed outside their allowed parents, inside a parent
+ * that does not allow them as children, or inside an ancestor forbidding them. It can
+ * remove or unwrap the element, or wrap it in the required parent when one is given.
+ *
+ * @param element - The element violating the content model
+ * @param message - A description of the violation
+ * @param requiredParent - The tag to wrap the element in, if any is allowed at its position
+ * @param errorHandlingMode - The error handling strategy to apply
+ * @returns Always returns `false` since the element is moved, removed or the error is thrown
+ *
+ * @example
+ * ```typescript
+ * import { handleTagContentError } from './handlers/direct';
+ *
+ * // <li> at the root of the fragment
+ * const result = handleTagContentError(
+ *   element,
+ *   "Tag li is not allowed at the root",
+ *   "ul",
+ *   "wrapInRequiredParent"
+ * );
+ * console.log(result); // false - element was wrapped in a new <ul>
+ * ```
+ *
+ * @throws {SanitizationError} Throws an error if `errorHandlingMode` is "throwError"
+ */
+export function handleTagContentError(
+  element: Htmlparser2TreeAdapterMap["element"],
+  message: string,
+  requiredParent: string | undefined,
+  errorHandlingMode?: TagContentErrorHandlingMode,
+): boolean {
+  const context: SanitizationViolationContext = { kind: "tagContent", message };
+
+  switch (errorHandlingMode) {
+    case "discardElement":
+    case "unwrapElement":
+      return handleTagError(element, errorHandlingMode, context);
+    case "wrapInRequiredParent":
+      if (!requiredParent) {
+        return handleTagError(element, "unwrapElement", context);
       }
+
+      reportViolation(element, context, "wrapInRequiredParent");
+      wrapInParent(element, requiredParent);
+      return false;
+    case "throwError":
+    default:
+      throw createSanitizationError(element, context);
   }
 }
 
@@ -408,11 +808,11 @@ export function handleTagChildrenError(
  * Handles general tag errors by applying the specified error handling strategy.
  *
  * This function processes tag-level errors and can either remove the element,
- * unwrap it (remove the tag but keep children), or throw an error.
+ * unwrap it (remove the tag but keep children), escape it as text, or throw an error.
  *
  * @param element - The HTML element that caused the error
  * @param errorHandlingMode - The error handling strategy to apply
- * @param errorMessage - Optional custom error message for logging/throwing
+ * @param violation - Optional violation context passed along by a more specific handler
  * @returns `true` if processing should continue, `false` if the element was removed/unwrapped
  *
  * @example
@@ -440,26 +840,90 @@ export function handleTagChildrenError(
  * // Children are now direct children of the parent
  * ```
  *
- * @throws {Error} Throws an error if `errorHandlingMode` is "throwError"
+ * @example
+ * ```typescript
+ * // Escape the element (<x class="a">Hi</x> is displayed as text)
+ * const result = handleTagError(
+ *   element,
+ *   "recursiveEscapeElement"
+ * );
+ * ```
+ *
+ * @throws {SanitizationError} Throws an error if `errorHandlingMode` is "throwError"
  */
 export function handleTagError(
   element: Htmlparser2TreeAdapterMap["element"],
   errorHandlingMode?: TagErrorHandlingMode,
-  errorMessage?: string,
+  violation?: SanitizationViolationContext,
 ): boolean {
+  const context = violation ?? {
+    kind: "tag",
+    message: `Tag ${element.tagName} is not allowed`,
+  };
+
   switch (errorHandlingMode) {
     case "discardElement":
+      reportViolation(element, context, "discardElement");
       adapter.detachNode(element);
       return false;
+    case "escapeElement":
+      reportViolation(element, context, "escapeElement");
+      escapeInParent(element, false);
+      return false;
+    case "recursiveEscapeElement":
+      reportViolation(element, context, "recursiveEscapeElement");
+      escapeInParent(element, true);
+      return false;
     case "unwrapElement":
+      // Unwrapping a non-text tag such as <script> would leak its raw content as text
+      if (
+        (nonTextTagLists.at(-1) ?? defaultNonTextTags).includes(element.tagName)
+      ) {
+        reportViolation(element, context, "discardElement");
+        adapter.detachNode(element);
+        return false;
+      }
+
+      reportViolation(element, context, "unwrapElement");
       unwrapInParent(element);
       return false;
     case "throwError":
     default:
-      throw new Error(errorMessage ?? `Tag ${element.tagName} is not allowed`);
+      throw createSanitizationError(element, context);
   }
 }
 
+/**
+ * Handles elements rejected by a tag filter or the global filter.
+ *
+ * This function delegates to {@link handleTagError}, reporting the violation as a filter
+ * rejection so the element can be discarded or unwrapped after its children were sanitized.
+ *
+ * @param element - The element rejected by the filter
+ * @param errorHandlingMode - The error handling strategy to apply
+ * @returns Always returns `false` since the element is removed or the error is thrown
+ *
+ * @example
+ * ```typescript
+ * import { handleTagFilterError } from './handlers/direct';
+ *
+ * // <p></p> rejected by a filter dropping empty paragraphs
+ * const result = handleTagFilterError(element, "discardElement");
+ * console.log(result); // false - element was removed
+ * ```
+ *
+ * @throws {SanitizationError} Throws an error if `errorHandlingMode` is "throwError"
+ */
+export function handleTagFilterError(
+  element: Htmlparser2TreeAdapterMap["element"],
+  errorHandlingMode?: TagErrorHandlingMode,
+): boolean {
+  return handleTagError(element, errorHandlingMode, {
+    kind: "tagFilter",
+    message: `Tag ${element.tagName} was rejected by a filter`,
+  });
+}
+
 /**
  * Handles errors related to elements that exceed the maximum nesting depth.
  *
@@ -488,7 +952,7 @@ export function handleTagError(
  * console.log(result); // false - element was removed
  * ```
  *
- * @throws {Error} Throws an error if `errorHandlingMode` is "throwError"
+ * @throws {SanitizationError} Throws an error if `errorHandlingMode` is "throwError"
  */
 export function handleTagNestingError(
   element:
@@ -497,20 +961,118 @@ export function handleTagNestingError(
   maxNesting: number,
   errorHandlingMode?: TagNestingErrorHandlingMode,
 ): false {
+  const context: SanitizationViolationContext = {
+    kind: "tagNesting",
+    limit: maxNesting,
+    message:
+      "tagName" in element
+        ? `Tag ${element.tagName} has exceeded the maximum nesting level of ${maxNesting}`
+        : `Root has exceeded the maximum nesting level of ${maxNesting}`,
+  };
+
   switch (errorHandlingMode) {
     case "discardElement":
+      reportViolation(element, context, "discardElement");
       adapter.detachNode(element);
       return false;
     case "throwError":
     default:
-      if ("tagName" in element) {
-        throw new Error(
-          `Tag ${element.tagName} has exceeded the maximum nesting level of ${maxNesting}`,
-        );
-      } else {
-        throw new Error(
-          `Root has exceeded the maximum nesting level of ${maxNesting}`,
-        );
+      throw createSanitizationError(element, context);
+  }
+}
+
+/**
+ * Handles errors related to text exceeding the maximum total length.
+ *
+ * This function processes text length errors when a text node would push the total
+ * length of the text past the limit. It can either cut the text at the limit or throw an error.
+ * Violations are reported against the parent of the text node.
+ *
+ * @param text - The text node that exceeds the limit
+ * @param parent - The parent of the text node
+ * @param remaining - The length still available for text before reaching the limit
+ * @param maxLength - The maximum total length of the text
+ * @param errorHandlingMode - The error handling strategy to apply
+ * @returns `true` if processing should continue, `false` if the text node was removed
+ *
+ * @example
+ * ```typescript
+ * import { handleTextTooLongError } from './handlers/direct';
+ *
+ * // 95 characters were already kept with a maximum of 100
+ * const result = handleTextTooLongError(textNode, paragraph, 5, 100, "trimExcess");
+ * console.log(textNode.data); // The first 5 characters of the text
+ * console.log(result); // true
+ * ```
+ *
+ * @throws {SanitizationError} Throws an error if `errorHandlingMode` is "throwError"
+ */
+export function handleTextTooLongError(
+  text: Htmlparser2TreeAdapterMap["textNode"],
+  parent: Htmlparser2TreeAdapterMap["parentNode"],
+  remaining: number,
+  maxLength: number,
+  errorHandlingMode?: TextTooLongErrorHandlingMode,
+): boolean {
+  const context: SanitizationViolationContext = {
+    kind: "textTooLong",
+    limit: maxLength,
+    message: `Text has exceeded the maximum length of ${maxLength}`,
+    value: text.data,
+  };
+
+  switch (errorHandlingMode) {
+    case "trimExcess": {
+      reportViolation(parent, context, "trimExcess");
+
+      // Never split a surrogate pair
+      let end = remaining;
+      const code = text.data.charCodeAt(end - 1);
+      if (code >= 0xd800 && code <= 0xdbff) {
+        end--;
       }
+
+      if (end <= 0) {
+        adapter.detachNode(text);
+        return false;
+      }
+
+      text.data = text.data.slice(0, end);
+      return true;
+    }
+    case "throwError":
+    default:
+      throw createSanitizationError(parent, context);
+  }
+}
+
+/**
+ * Runs a callback with the given tags discarded instead of unwrapped during it.
+ *
+ * Every tag error handled with `unwrapElement` on one of these tags discards the element
+ * along with its content, whatever the kind of the violation. Calls can be nested, in which
+ * case only the innermost list applies. Outside any call, the default list applies.
+ *
+ * @template T - The return type of the callback
+ * @param tags - The non-text tags, or `undefined` for the default ones
+ * @param callback - The sanitization run to apply them to
+ * @returns The value returned by the callback
+ *
+ * @example
+ * ```typescript
+ * import { withNonTextTags } from './handlers/direct';
+ *
+ * const html = withNonTextTags(["script", "template"], () => sanitize(input));
+ * ```
+ */
+export function withNonTextTags<T>(
+  tags: readonly TagKey[] | undefined,
+  callback: () => T,
+): T {
+  nonTextTagLists.push(tags ?? defaultNonTextTags);
+  try {
+    return callback();
+  } finally {
+    nonTextTagLists.pop();
   }
 }
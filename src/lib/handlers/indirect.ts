@@ -5,6 +5,7 @@ import type {
   TagAttributeCollectionValueTooManyErrorHandlingMode,
   TagAttributeRecordValueDuplicateErrorHandlingMode,
 } from "../../types/error-handling";
+import type { SanitizationViolationContext } from "../../types/report";
 import type {
   TagAttributeCollectionValueRule,
   TagAttributeRecordValueRule,
@@ -15,6 +16,7 @@ import type {
   TagAttributeValueRecord,
 } from "../../types/tag";
 
+import { reportViolation } from "../report";
 import { handleTagAttributeValueError } from "./direct";
 
 /**
@@ -30,7 +32,7 @@ import { handleTagAttributeValueError } from "./direct";
  * @param collection - The collection that has too many values
  * @param rule - The validation rule containing the entry limit
  * @param errorHandlingMode - The error handling strategy to apply
- * @param errorMessage - Optional custom error message for logging/throwing
+ * @param violation - Optional violation context passed along by a more specific handler
  * @returns An object containing the processed collection and whether to continue processing
  *
  * @example
@@ -103,10 +105,19 @@ export function handleTagAttributeCollectionValueTooManyError<
   collection: T,
   rule: ReadonlyDeep<TagAttributeCollectionValueRule>,
   errorHandlingMode?: TagAttributeCollectionValueTooManyErrorHandlingMode,
-  errorMessage?: string,
+  violation?: SanitizationViolationContext,
 ): { output: T; proceed: boolean } {
+  const context = violation ?? {
+    attribute: attribute.key,
+    kind: "attributeCollectionValueTooMany",
+    limit: rule.maxEntries,
+    message: `Value ${attribute.value} for attribute ${attribute.key} has too many tokens`,
+    value: attribute.value,
+  };
+
   switch (errorHandlingMode) {
     case "dropExtra":
+      reportViolation(element, context, "dropExtra");
       collection = collection.slice(0, rule.maxEntries) as T;
       return { output: collection, proceed: true };
     default:
@@ -117,8 +128,7 @@ export function handleTagAttributeCollectionValueTooManyError<
           element,
           rule,
           errorHandlingMode,
-          errorMessage ??
-            `Value ${attribute.value} for attribute ${attribute.key} has too many tokens`,
+          context,
         ),
       };
   }
@@ -138,7 +148,7 @@ export function handleTagAttributeCollectionValueTooManyError<
  * @param record - The record containing the duplicate entries
  * @param rule - The validation rule that was violated
  * @param errorHandlingMode - The error handling strategy to apply
- * @param errorMessage - Optional custom error message for logging/throwing
+ * @param violation - Optional violation context passed along by a more specific handler
  * @returns An object containing the processed record and processing flags
  *
  * @example
@@ -228,21 +238,32 @@ export function handleTagAttributeRecordValueDuplicateError(
   record: TagAttributeValueRecord,
   rule: ReadonlyDeep<TagAttributeRecordValueRule>,
   errorHandlingMode?: TagAttributeRecordValueDuplicateErrorHandlingMode,
-  errorMessage?: string,
+  violation?: SanitizationViolationContext,
 ): {
   globalProceed: boolean;
   localProceed: boolean;
   output: TagAttributeValueRecord;
 } {
+  const context = violation ?? {
+    attribute: attribute.key,
+    kind: "attributeRecordValueDuplicate",
+    message: `Value ${attribute.value} for attribute ${attribute.key} has duplicate ${key} keys`,
+    value: key,
+  };
+
   switch (errorHandlingMode) {
     case "dropDuplicates":
+      reportViolation(element, context, "dropDuplicates");
       record = record.filter((entry) => entry.key !== key);
       return { globalProceed: true, localProceed: false, output: record };
     case "keepDuplicates":
+      reportViolation(element, context, "keepDuplicates");
       return { globalProceed: true, localProceed: true, output: record };
     case "keepFirst":
+      reportViolation(element, context, "keepFirst");
       return { globalProceed: true, localProceed: false, output: record };
     case "keepLast":
+      reportViolation(element, context, "keepLast");
       record = record.filter((entry) => entry.key !== key);
       return { globalProceed: true, localProceed: true, output: record };
     default: {
@@ -251,8 +272,7 @@ export function handleTagAttributeRecordValueDuplicateError(
         element,
         rule,
         errorHandlingMode,
-        errorMessage ??
-          `Value ${attribute.value} for attribute ${attribute.key} has duplicate ${key} keys`,
+        context,
       );
       return { globalProceed: result, localProceed: result, output: record };
     }
@@ -1,8 +1,83 @@
 import type { Htmlparser2TreeAdapterMap } from "parse5-htmlparser2-tree-adapter";
 
+import { serializeOuter } from "parse5";
 import { adapter } from "parse5-htmlparser2-tree-adapter";
+import { CssSyntaxError, parse } from "postcss";
 
 import type { TagAttributeValueComparator } from "../types/comparators";
+import type { ErrorHandling } from "../types/sanitizer";
+import type {
+  TagAttributeValueCandidate,
+  TagAttributeValueDeclaration,
+} from "../types/tag";
+
+export function escapeInParent(
+  element: Htmlparser2TreeAdapterMap["element"],
+  recursive: boolean,
+): void {
+  const parent = element.parentNode;
+  if (!parent) {
+    adapter.detachNode(element);
+    return;
+  }
+
+  if (recursive) {
+    adapter.insertBefore(
+      parent,
+      adapter.createTextNode(serializeOuter(element, { treeAdapter: adapter })),
+      element,
+    );
+    adapter.detachNode(element);
+    return;
+  }
+
+  // Serialize the tag alone, void elements have no end tag
+  const shallow = adapter.createElement(
+    element.tagName,
+    adapter.getNamespaceURI(element),
+    Object.entries(element.attribs).map(([name, value]) => ({ name, value })),
+  );
+  const source = serializeOuter(shallow, { treeAdapter: adapter });
+  const endTag = `</${element.tagName}>`;
+  const startTag = source.endsWith(endTag)
+    ? source.slice(0, -endTag.length)
+    : source;
+
+  adapter.insertBefore(parent, adapter.createTextNode(startTag), element);
+  if (startTag !== source) {
+    const endText = adapter.createTextNode(endTag);
+    if (element.nextSibling) {
+      adapter.insertBefore(parent, endText, element.nextSibling);
+    } else {
+      adapter.appendChild(parent, endText);
+    }
+  }
+
+  unwrapInParent(element);
+}
+
+// Looks up a rule by name, ignoring inherited keys such as "constructor"
+export function getOwnEntry<T>(
+  record: Readonly<Record<string, T>> | undefined,
+  key: string,
+): T | undefined {
+  return record && Object.hasOwn(record, key) ? record[key] : undefined;
+}
+
+export function getTextContent(
+  node: Htmlparser2TreeAdapterMap["parentNode"],
+): string {
+  let text = "";
+  for (const child of node.children) {
+    if (adapter.isTextNode(child)) {
+      text += child.data;
+    } else if (adapter.isElementNode(child)) {
+      text += getTextContent(child);
+    }
+  }
+
+  return text;
+}
 
 export function matchComparator(
   cmp: TagAttributeValueComparator,
@@ -70,6 +145,79 @@ export function parseSet(input: string, delimiter: string): string[] {
   );
 }
 
+// Splits an image candidate list following the HTML srcset parsing algorithm, where commas
+// inside the URL belong to it and commas inside parentheses belong to the descriptors
+export function parseSrcset(input: string): TagAttributeValueCandidate[] {
+  const out: TagAttributeValueCandidate[] = [];
+  let position = 0;
+
+  const collect = (predicate: (char: string) => boolean) => {
+    const start = position;
+    while (position < input.length && predicate(input[position])) position++;
+    return input.slice(start, position);
+  };
+
+  for (;;) {
+    collect((char) => isSpace(char) || char === ",");
+    if (position >= input.length) return out;
+
+    const url = collect((char) => !isSpace(char));
+    if (url.endsWith(",")) {
+      out.push({ descriptors: "", url: url.replace(/,+$/, "") });
+      continue;
+    }
+
+    let inParens = false;
+    const descriptors = collect((char) => {
+      if (char === "(") inParens = true;
+      else if (char === ")") inParens = false;
+      return inParens || char !== ",";
+    });
+
+    out.push({ descriptors: descriptors.trim(), url });
+  }
+}
+
+export function parseStyle(
+  input: string,
+): null | TagAttributeValueDeclaration[] {
+  const trimmed = input.trim();
+  if (!trimmed) return [];
+
+  let root;
+  try {
+    // Never process source maps, they can disclose files on the server
+    root = parse(trimmed, { map: false });
+  } catch (error) {
+    if (error instanceof CssSyntaxError) return null;
+    throw error;
+  }
+
+  const out: TagAttributeValueDeclaration[] = [];
+  for (const node of root.nodes) {
+    // Comments, rules and at-rules have no meaning inside a style attribute
+    if (node.type !== "decl") continue;
+
+    const key = node.prop.startsWith("--")
+      ? node.prop
+      : node.prop.toLowerCase();
+    const val = node.value.trim();
+    if (!val) continue;
+
+    out.push({ important: node.important === true, key, val });
+  }
+
+  return out;
+}
+
+// Overrides the inherited error handling with the one of a rule, per key
+export function resolveErrorHandling(
+  inherited: ErrorHandling | undefined,
+  override: ErrorHandling | undefined,
+): ErrorHandling | undefined {
+  return override ? { ...inherited, ...override } : inherited;
+}
+
 export function unwrapInParent(
   element: Htmlparser2TreeAdapterMap["element"],
 ): void {
@@ -95,3 +243,33 @@ export function unwrapInParent(
 
   adapter.detachNode(element);
 }
+
+export function wrapInParent(
+  element: Htmlparser2TreeAdapterMap["element"],
+  tagName: string,
+): void {
+  const wrapper = adapter.createElement(
+    tagName,
+    adapter.getNamespaceURI(element),
+    [],
+  );
+
+  const parent = element.parentNode;
+  if (parent) {
+    adapter.insertBefore(parent, wrapper, element);
+    adapter.detachNode(element);
+  }
+
+  adapter.appendChild(wrapper, element);
+}
+
+// ASCII whitespace as defined by the HTML standard
+function isSpace(char: string): boolean {
+  return (
+    char === " " ||
+    char === "\t" ||
+    char === "\n" ||
+    char === "\f" ||
+    char === "\r"
+  );
+}
@@ -0,0 +1,257 @@
+import type { ReadonlyDeep } from "type-fest";
+
+import type {
+  SanitizerOptionsOverride,
+  TagAttributeValueRuleOverride,
+  TagRuleOverride,
+  TagRulesOverride,
+} from "../types/merge";
+import type { TagAttributeValueRule } from "../types/rules";
+import type { SanitizerOptions } from "../types/sanitizer";
+import type { TagKey, TagRule } from "../types/tag";
+
+import { getOwnEntry } from "./helpers";
+
+/**
+ * Merges overrides into sanitizer options without mutating any of the inputs.
+ *
+ * Overrides are applied in order with the following semantics:
+ * - `tags` are merged with {@link mergeTagRules}, where `null` removes a tag or attribute
+ * - `globalAttributes` are merged like the attributes of a tag rule
+ * - `errorHandling`, `text` and `topLevelLimits` are merged per key
+ * - Attribute rules of the same mode are merged: record `values` and style `properties`
+ *   per key (`null` removes a key), every other field including set `values` is replaced,
+ *   so extending a set means listing the values of the base along with the new ones
+ * - Attribute rules of a different mode, or without a base rule, replace it altogether and
+ *   must be complete
+ * - Every other option is replaced
+ *
+ * @param base - The options to start from
+ * @param overrides - The overrides to apply, in order
+ * @returns New sanitizer options
+ *
+ * @throws {Error} Throws an error if an attribute rule replacing its base is incomplete
+ *
+ * @example
+ * ```typescript
+ * import { mergeSanitizerOptions } from 'sanitize-html';
+ *
+ * const tenantOptions = mergeSanitizerOptions(baseOptions, {
+ *   errorHandling: { attribute: "throwError" },
+ *   tags: {
+ *     // Allow one more CSS property, keeping the others
+ *     "span": { attributes: { "style": { mode: "style", properties: { "color": "*" } } } },
+ *     // Replace the allowed classes, the delimiter being kept from a set rule in the base
+ *     "div": { attributes: { "class": { mode: "set", delimiter: " ", values: ["card"] } } },
+ *     // Disallow iframes
+ *     "iframe": null
+ *   }
+ * });
+ * ```
+ */
+export function mergeSanitizerOptions(
+  base: SanitizerOptions,
+  ...overrides: SanitizerOptionsOverride[]
+): SanitizerOptions {
+  let output = base;
+
+  for (const override of overrides) {
+    const {
+      errorHandling,
+      globalAttributes,
+      tags,
+      text,
+      topLevelLimits,
+      ...rest
+    } = override;
+
+    output = {
+      ...output,
+      ...rest,
+      ...(errorHandling && {
+        errorHandling: { ...output.errorHandling, ...errorHandling },
+      }),
+      ...(globalAttributes && {
+        globalAttributes: mergeEntries(
+          output.globalAttributes ?? {},
+          globalAttributes,
+          mergeAttributeRule,
+        ),
+      }),
+      ...(tags && { tags: mergeTagRules(output.tags ?? {}, tags) }),
+      ...(text && { text: { ...output.text, ...text } }),
+      ...(topLevelLimits && {
+        topLevelLimits: { ...output.topLevelLimits, ...topLevelLimits },
+      }),
+    };
+  }
+
+  return output;
+}
+
+/**
+ * Merges overrides into a map of tag rules without mutating any of the inputs.
+ *
+ * Overrides are applied in order. Tags and attributes set to `null` are removed,
+ * attribute rules are merged as described in {@link mergeSanitizerOptions}, error
+ * handling and limits are merged per key and other fields are replaced.
+ *
+ * @param base - The tag rules to start from
+ * @param overrides - The overrides to apply, in order
+ * @returns A new map of tag rules
+ *
+ * @throws {Error} Throws an error if an attribute rule replacing its base is incomplete
+ *
+ * @example
+ * ```typescript
+ * import { mergeTagRules } from './merge';
+ *
+ * const tags = mergeTagRules(
+ *   { a: { attributes: { href: { mode: "simple", value: "*" } } }, b: {} },
+ *   { a: { attributes: { title: { mode: "simple", value: "*" } } }, b: null }
+ * );
+ * // { a: { attributes: { href: ..., title: ... } } }
+ * ```
+ */
+export function mergeTagRules(
+  base: ReadonlyDeep<Record<TagKey, TagRule>>,
+  ...overrides: TagRulesOverride[]
+): ReadonlyDeep<Record<TagKey, TagRule>> {
+  return overrides.reduce<ReadonlyDeep<Record<TagKey, TagRule>>>(
+    (output, override) => mergeEntries(output, override, mergeTagRule),
+    base,
+  );
+}
+
+function mergeAttributeRule(
+  base: ReadonlyDeep<TagAttributeValueRule> | undefined,
+  override: ReadonlyDeep<TagAttributeValueRuleOverride>,
+): ReadonlyDeep<TagAttributeValueRule> {
+  switch (override.mode) {
+    case "record": {
+      const { entrySeparator, keyValueSeparator, values, ...rest } = override;
+      const rule = base?.mode === "record" ? base : undefined;
+
+      return {
+        ...rule,
+        ...rest,
+        entrySeparator: requireField(
+          entrySeparator ?? rule?.entrySeparator,
+          override.mode,
+          "entrySeparator",
+        ),
+        keyValueSeparator: requireField(
+          keyValueSeparator ?? rule?.keyValueSeparator,
+          override.mode,
+          "keyValueSeparator",
+        ),
+        values: mergeEntries(rule?.values ?? {}, values ?? {}, replaceEntry),
+      };
+    }
+    case "set": {
+      const { delimiter, values, ...rest } = override;
+      const rule = base?.mode === "set" ? base : undefined;
+
+      return {
+        ...rule,
+        ...rest,
+        delimiter: requireField(
+          delimiter ?? rule?.delimiter,
+          override.mode,
+          "delimiter",
+        ),
+        values: requireField(values ?? rule?.values, override.mode, "values"),
+      };
+    }
+    case "simple": {
+      const { value, ...rest } = override;
+      const rule = base?.mode === "simple" ? base : undefined;
+
+      return {
+        ...rule,
+        ...rest,
+        value: requireField(value ?? rule?.value, override.mode, "value"),
+      };
+    }
+    case "srcset":
+      return { ...(base?.mode === "srcset" ? base : undefined), ...override };
+    case "style": {
+      const { properties, ...rest } = override;
+      const rule = base?.mode === "style" ? base : undefined;
+
+      return {
+        ...rule,
+        ...rest,
+        properties: mergeEntries(
+          rule?.properties ?? {},
+          properties ?? {},
+          replaceEntry,
+        ),
+      };
+    }
+    case "url":
+      return { ...(base?.mode === "url" ? base : undefined), ...override };
+  }
+}
+
+// Merges each entry of the override into the base, removing entries set to null. The output
+// has no prototype, so keys such as "__proto__" or "constructor" are plain entries
+function mergeEntries<T, O>(
+  base: Readonly<Record<string, T>>,
+  override: Readonly<Record<string, null | O>>,
+  merge: (base: T | undefined, override: O) => T,
+): Record<string, T> {
+  const output: Record<string, T> = Object.create(null);
+
+  for (const [key, value] of Object.entries(base)) {
+    output[key] = value;
+  }
+
+  for (const [key, value] of Object.entries(override)) {
+    if (value === null) {
+      delete output[key];
+    } else {
+      output[key] = merge(getOwnEntry(output, key), value);
+    }
+  }
+
+  return output;
+}
+
+function mergeTagRule(
+  base: ReadonlyDeep<TagRule> | undefined,
+  override: ReadonlyDeep<TagRuleOverride>,
+): ReadonlyDeep<TagRule> {
+  const { attributes, errorHandling, limits, ...rest } = override;
+
+  return {
+    ...base,
+    ...rest,
+    ...(attributes && {
+      attributes: mergeEntries(
+        base?.attributes ?? {},
+        attributes,
+        mergeAttributeRule,
+      ),
+    }),
+    ...(errorHandling && {
+      errorHandling: { ...base?.errorHandling, ...errorHandling },
+    }),
+    ...(limits && { limits: { ...base?.limits, ...limits } }),
+  };
+}
+
+function replaceEntry<T>(_base: T | undefined, override: T): T {
+  return override;
+}
+
+// Returns a field of a merged attribute rule, throwing when neither the override nor the base sets it
+function requireField<T>(value: T | undefined, mode: string, field: string): T {
+  if (value === undefined) {
+    throw new Error(
+      `Attribute rule of mode ${mode} without a base rule of the same mode is missing its ${field}`,
+    );
+  }
+
+  return value;
+}
@@ -0,0 +1,200 @@
+import type { ReadonlyDeep } from "type-fest";
+
+import type { TagRulesOverride } from "../types/merge";
+import type { TagAttributeUrlValueRule } from "../types/rules";
+import type { TagKey, TagRule } from "../types/tag";
+
+import { mergeTagRules } from "./merge";
+
+type Preset = ReadonlyDeep<Record<TagKey, TagRule>>;
+
+// Absolute URLs with a safe scheme, or relative URLs
+const safeUrlRule: TagAttributeUrlValueRule = {
+  allowRelative: true,
+  mode: "url",
+  protocols: ["ftp", "http", "https", "mailto", "tel"],
+};
+
+const basicFormatting: Preset = {
+  b: {},
+  br: {},
+  code: {},
+  em: {},
+  i: {},
+  p: {},
+  s: {},
+  small: {},
+  strong: {},
+  sub: {},
+  sup: {},
+  u: {},
+};
+
+const commentsSafe: Preset = {
+  ...basicFormatting,
+  a: {
+    attributes: {
+      href: { ...safeUrlRule, maxLength: 2048, required: true },
+      title: { maxLength: 200, mode: "simple", value: "*" },
+    },
+  },
+  blockquote: { limits: { nesting: 6 } },
+  li: {},
+  ol: { limits: { children: 100, nesting: 6 } },
+  pre: {},
+  ul: { limits: { children: 100, nesting: 6 } },
+};
+
+// The classic sanitize-html default allowlist
+const richTextTags: TagKey[] = [
+  "address",
+  "article",
+  "aside",
+  "footer",
+  "header",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "hgroup",
+  "main",
+  "nav",
+  "section",
+  "blockquote",
+  "dd",
+  "div",
+  "dl",
+  "dt",
+  "figcaption",
+  "figure",
+  "hr",
+  "li",
+  "ol",
+  "p",
+  "pre",
+  "ul",
+  "abbr",
+  "b",
+  "bdi",
+  "bdo",
+  "br",
+  "cite",
+  "code",
+  "data",
+  "dfn",
+  "em",
+  "i",
+  "kbd",
+  "mark",
+  "q",
+  "rb",
+  "rp",
+  "rt",
+  "rtc",
+  "ruby",
+  "s",
+  "samp",
+  "small",
+  "span",
+  "strong",
+  "sub",
+  "sup",
+  "time",
+  "u",
+  "var",
+  "wbr",
+  "caption",
+  "col",
+  "colgroup",
+  "table",
+  "tbody",
+  "td",
+  "tfoot",
+  "th",
+  "thead",
+  "tr",
+];
+
+const richText: Preset = {
+  ...Object.fromEntries(richTextTags.map((tagName) => [tagName, {}])),
+  a: {
+    attributes: {
+      href: safeUrlRule,
+      name: { mode: "simple", value: "*" },
+      target: { mode: "simple", value: ["_blank", "_self"] },
+    },
+  },
+};
+
+/**
+ * Ready-made tag rules covering common use cases.
+ *
+ * Each preset is a map of tag rules to use as {@link SanitizerOptions.tags}, either as is or
+ * extended with {@link extendPreset}:
+ *
+ * - `none`: No tags at all, only text is kept
+ * - `basicFormatting`: Inline formatting and paragraphs without any attributes
+ * - `commentsSafe`: Basic formatting plus links, lists, quotes and code blocks, with nesting
+ *   and children limits suited to user comments
+ * - `richText`: The classic sanitize-html default allowlist, with `href`, `name` and `target`
+ *   allowed on links
+ *
+ * Links only accept relative URLs or `http`, `https`, `ftp`, `mailto` and `tel` URLs.
+ *
+ * @example
+ * ```typescript
+ * import { presets, sanitizeHtml } from 'sanitize-html';
+ *
+ * const clean = sanitizeHtml(dirty, {
+ *   errorHandling: { tag: "unwrapElement", attribute: "discardAttribute" },
+ *   tags: presets.commentsSafe
+ * });
+ * ```
+ */
+export const presets: Readonly<
+  Record<"basicFormatting" | "commentsSafe" | "none" | "richText", Preset>
+> = {
+  basicFormatting,
+  commentsSafe,
+  none: {},
+  richText,
+};
+
+/**
+ * Extends a preset with additional or overridden tag rules without mutating it.
+ *
+ * Overrides are applied in order with the same semantics as {@link mergeTagRules}: setting a
+ * tag or attribute to `null` removes it, attribute rules of the same mode are merged, error
+ * handling and limits are merged per key and other fields are replaced.
+ *
+ * @param preset - The preset to extend, usually one of {@link presets}
+ * @param overrides - The overrides to apply, in order
+ * @returns A new map of tag rules
+ *
+ * @example
+ * ```typescript
+ * import { extendPreset, presets } from 'sanitize-html';
+ *
+ * const tags = extendPreset(presets.richText, {
+ *   // Add images
+ *   img: {
+ *     attributes: {
+ *       src: { mode: "url", protocols: ["https"], hosts: ["cdn.example.com"] },
+ *       alt: { mode: "simple", value: "*" }
+ *     }
+ *   },
+ *   // Disallow link targets
+ *   a: { attributes: { target: null } },
+ *   // Disallow tables
+ *   table: null
+ * });
+ * ```
+ */
+export function extendPreset(
+  preset: Preset,
+  ...overrides: TagRulesOverride[]
+): Preset {
+  return mergeTagRules(preset, ...overrides);
+}
@@ -0,0 +1,118 @@
+import type { Htmlparser2TreeAdapterMap } from "parse5-htmlparser2-tree-adapter";
+
+import type {
+  SanitizationAction,
+  SanitizationViolation,
+  SanitizationViolationContext,
+} from "../types/report";
+
+type ViolationReporter = (violation: SanitizationViolation) => void;
+
+// Active reporters, innermost sanitization run last
+const reporters: (undefined | ViolationReporter)[] = [];
+
+/**
+ * Computes the path of a node from the root of its tree.
+ *
+ * Each segment is the tag name followed by the index of the node among its parent's children,
+ * text and comment nodes included. The root itself has the path `/`.
+ *
+ * @param node - The node to compute the path for
+ * @returns The path of the node, e.g. `/div[0]/p[2]`
+ *
+ * @example
+ * ```typescript
+ * import { getNodePath } from './report';
+ *
+ * // <div>Text<p>Paragraph</p></div>
+ * console.log(getNodePath(paragraphElement)); // "/div[0]/p[1]"
+ * ```
+ */
+export function getNodePath(
+  node: Htmlparser2TreeAdapterMap["parentNode"],
+): string {
+  const segments: string[] = [];
+
+  let current: Htmlparser2TreeAdapterMap["parentNode"] | null = node;
+  while (current && "tagName" in current) {
+    const parent: Htmlparser2TreeAdapterMap["parentNode"] | null =
+      current.parentNode;
+    const index = parent ? parent.children.indexOf(current) : 0;
+    segments.unshift(`${current.tagName}[${index}]`);
+    current = parent;
+  }
+
+  return `/${segments.join("/")}`;
+}
+
+/**
+ * Reports a violation to the reporter of the current sanitization run, if any.
+ *
+ * Must be called before the node is detached so its path can still be computed.
+ *
+ * @param node - The element (or root) the violation was found on
+ * @param context - The violation context created by the most specific handler
+ * @param action - The action taken to resolve the violation
+ *
+ * @example
+ * ```typescript
+ * import { reportViolation } from './report';
+ *
+ * reportViolation(
+ *   element,
+ *   { attribute: "onclick", kind: "attribute", message: "Attribute onclick is not allowed", value: "alert(1)" },
+ *   "discardAttribute"
+ * );
+ * ```
+ */
+export function reportViolation(
+  node: Htmlparser2TreeAdapterMap["parentNode"],
+  context: SanitizationViolationContext,
+  action: SanitizationAction,
+): void {
+  const reporter = reporters.at(-1);
+  if (!reporter) {
+    return;
+  }
+
+  reporter({
+    ...context,
+    action,
+    path: getNodePath(node),
+    tag: "tagName" in node ? node.tagName : undefined,
+  });
+}
+
+/**
+ * Runs a callback with the given reporter receiving every violation reported during it.
+ *
+ * Calls can be nested, in which case only the innermost reporter receives violations.
+ * Passing `undefined` silences any outer reporter for the duration of the callback.
+ *
+ * @template T - The return type of the callback
+ * @param reporter - The reporter to receive violations
+ * @param callback - The sanitization run to observe
+ * @returns The value returned by the callback
+ *
+ * @example
+ * ```typescript
+ * import { withViolationReporter } from './report';
+ *
+ * const violations: SanitizationViolation[] = [];
+ * const html = withViolationReporter(
+ *   (violation) => violations.push(violation),
+ *   () => sanitize(input),
+ * );
+ * ```
+ */
+export function withViolationReporter<T>(
+  reporter: undefined | ViolationReporter,
+  callback: () => T,
+): T {
+  reporters.push(reporter);
+  try {
+    return callback();
+  } finally {
+    reporters.pop();
+  }
+}
@@ -1,8 +1,13 @@
 import type { Htmlparser2TreeAdapterMap } from "parse5-htmlparser2-tree-adapter";
 import type { ReadonlyDeep } from "type-fest";
 
+import { adapter } from "parse5-htmlparser2-tree-adapter";
+
 import type {
+  EmbedSourceErrorHandlingMode,
+  ScriptSourceErrorHandlingMode,
   TagAttributeErrorHandlingMode,
+  TagAttributeUrlValueErrorHandlingMode,
   TagAttributeValueErrorHandlingMode,
   TagErrorHandlingMode,
 } from "../types/error-handling";
@@ -10,20 +15,34 @@ import type {
   TagAttributeRecordValueRule,
   TagAttributeSetValueRule,
   TagAttributeSimpleValueRule,
+  TagAttributeSrcsetValueRule,
+  TagAttributeStyleValueRule,
+  TagAttributeUrlValueRule,
   TagAttributeValueRule,
 } from "../types/rules";
-import type { ErrorHandling } from "../types/sanitizer";
+import type { ErrorHandling, SanitizerOptions } from "../types/sanitizer";
 import type {
   TagAttribute,
   TagAttributeKey,
+  TagAttributePattern,
+  TagAttributeValueCandidate,
   TagAttributeValueRecord,
+  TagEmbedPolicy,
+  TagKey,
   TagRule,
+  TagScriptPolicy,
+  TagTransform,
 } from "../types/tag";
 
 import {
+  handleEmbedSourceError,
+  handleScriptSourceError,
   handleTagAttributeError,
   handleTagAttributeRecordValueError,
   handleTagAttributeSetValueError,
+  handleTagAttributeSrcsetValueError,
+  handleTagAttributeStyleValueError,
+  handleTagAttributeUrlValueError,
   handleTagAttributeValueError,
   handleTagAttributeValueTooLongError,
   handleTagError,
@@ -32,7 +51,36 @@ import {
   handleTagAttributeCollectionValueTooManyError,
   handleTagAttributeRecordValueDuplicateError,
 } from "./handlers/indirect";
-import { matchComparator, parseRecord, parseSet } from "./helpers";
+import {
+  getOwnEntry,
+  matchComparator,
+  parseRecord,
+  parseSet,
+  parseSrcset,
+  parseStyle,
+  resolveErrorHandling,
+} from "./helpers";
+import { globToRegex, isGlob } from "./utils/glob";
+import { buildUrlValidator, isAllowedEmbedSource } from "./utils/url";
+
+// Tag attribute rules merged over the global ones, keyed by the global then the tag rules
+const attributeRulesCache = new WeakMap<
+  object,
+  WeakMap<object, ReadonlyDeep<Record<TagAttributeKey, TagAttributeValueRule>>>
+>();
+
+// Compiled glob keys and their rules, keyed by the tag or attribute rules they were built from
+const globCache = new WeakMap<object, [RegExp, unknown][]>();
+
+// Width and pixel density descriptors of image candidates
+const widthDescriptor = /^\d+w$/;
+const densityDescriptor = /^(?:\d+(?:\.\d+)?|\.\d+)(?:e[+-]?\d+)?x$/i;
+
+// Compiled URL validators, keyed by the rule they were built from
+const urlValidatorCache = new WeakMap<
+  ReadonlyDeep<TagAttributeSrcsetValueRule | TagAttributeUrlValueRule>,
+  (value: string) => boolean
+>();
 
 /**
  * Enforces required attributes by adding default values or handling missing attributes.
@@ -87,17 +135,23 @@ export function enforceRequiredAttributes(
   }
 
   for (const [attrName, rule] of Object.entries(rules)) {
-    if (attrName === "*") {
+    // Wildcard and glob rules match several attributes, so none of them is required
+    if (isGlob(attrName)) {
       continue;
     }
 
     if (rule.required && !(attrName in element.attribs)) {
+      const attrErrorHandling = resolveErrorHandling(
+        errorHandling,
+        rule.errorHandling,
+      );
+
       if (
         !handleTagAttributeValueError(
           { key: attrName, value: "" },
           element,
           rule,
-          errorHandling?.attributeValue,
+          attrErrorHandling?.attributeValue,
         )
       ) {
         return false;
@@ -108,16 +162,223 @@ export function enforceRequiredAttributes(
   return true;
 }
 
+/**
+ * Resolves the rule applying to an attribute name.
+ *
+ * Rules are looked up in order of precedence, the first match winning:
+ * 1. The exact attribute name in `rules`
+ * 2. Glob keys of `rules`, such as `"data-*"` or `"aria-*"`, in key order
+ * 3. The given attribute patterns, in array order
+ * 4. The exact attribute name in `globalRules`, then their glob keys in key order
+ * 5. The `"*"` key of `rules`
+ * 6. The `"*"` key of `globalRules`
+ *
+ * @param rules - The attribute rules of the tag
+ * @param patterns - The attribute patterns of the tag
+ * @param name - The attribute name to resolve
+ * @param globalRules - The attribute rules shared by every tag (optional)
+ * @returns The rule applying to the attribute, or `undefined` if the attribute is not allowed
+ *
+ * @example
+ * ```typescript
+ * import { getAttributeRule } from './sanitizers';
+ *
+ * const rules = {
+ *   "*": { mode: "simple", value: "*" },
+ *   "data-*": { mode: "simple", value: "*" },
+ *   "data-id": { mode: "simple", value: /^\d+$/ }
+ * };
+ * const globalRules = { id: { mode: "simple", value: /^[a-z]+$/ } };
+ *
+ * getAttributeRule(rules, [], "data-id"); // { mode: "simple", value: /^\d+$/ }
+ * getAttributeRule(rules, [], "data-role"); // { mode: "simple", value: "*" }
+ * getAttributeRule(rules, [], "id", globalRules); // { mode: "simple", value: /^[a-z]+$/ }
+ * getAttributeRule({}, [], "title"); // undefined
+ * ```
+ */
+export function getAttributeRule(
+  rules:
+    | ReadonlyDeep<Record<TagAttributeKey, TagAttributeValueRule>>
+    | undefined,
+  patterns: ReadonlyDeep<TagAttributePattern[]> | undefined,
+  name: string,
+  globalRules?:
+    | ReadonlyDeep<Record<TagAttributeKey, TagAttributeValueRule>>
+    | undefined,
+): ReadonlyDeep<TagAttributeValueRule> | undefined {
+  return (
+    findNamedAttributeRule(rules, patterns, name) ??
+    findNamedAttributeRule(globalRules, undefined, name) ??
+    getOwnEntry(rules, "*") ??
+    getOwnEntry(globalRules, "*")
+  );
+}
+
+/**
+ * Returns the attribute rules of a tag merged over the global attribute rules.
+ *
+ * Tag rules take precedence over global rules of the same key. The merged rules list the
+ * attributes required on the tag, while present attributes are resolved with
+ * {@link getAttributeRule}, where the `"*"` rule of the tag comes after the named global
+ * rules. The merged rules are cached for as long as both rule
+ * objects are alive, so they are only built once.
+ *
+ * @param globalAttributes - The attribute rules shared by every tag
+ * @param attributes - The attribute rules of the tag
+ * @returns The merged attribute rules
+ *
+ * @example
+ * ```typescript
+ * import { getAttributeRules } from './sanitizers';
+ *
+ * const rules = getAttributeRules(
+ *   { id: { mode: "simple", value: "*" }, title: { mode: "simple", value: "*" } },
+ *   { id: { mode: "simple", value: /^[a-z]+$/ } }
+ * );
+ * // { id: { mode: "simple", value: /^[a-z]+$/ }, title: { mode: "simple", value: "*" } }
+ * ```
+ */
+export function getAttributeRules(
+  globalAttributes:
+    | ReadonlyDeep<Record<TagAttributeKey, TagAttributeValueRule>>
+    | undefined,
+  attributes:
+    | ReadonlyDeep<Record<TagAttributeKey, TagAttributeValueRule>>
+    | undefined,
+): ReadonlyDeep<Record<TagAttributeKey, TagAttributeValueRule>> | undefined {
+  if (!globalAttributes || !attributes) {
+    return attributes ?? globalAttributes;
+  }
+
+  let cache = attributeRulesCache.get(globalAttributes);
+  if (!cache) {
+    cache = new WeakMap();
+    attributeRulesCache.set(globalAttributes, cache);
+  }
+
+  let rules = cache.get(attributes);
+  if (!rules) {
+    rules = { ...globalAttributes, ...attributes };
+    cache.set(attributes, rules);
+  }
+
+  return rules;
+}
+
+/**
+ * Resolves the rule applying to a tag name.
+ *
+ * Rules are looked up in order of precedence, the first match winning:
+ * 1. The exact tag name in `options.tags`
+ * 2. Glob keys of `options.tags`, such as `"x-widget-*"` or `"h?"`, in key order
+ * 3. The patterns of `options.tagPatterns`, in array order
+ * 4. The `"*"` key of `options.tags`
+ *
+ * @param options - Sanitization configuration options
+ * @param tagName - The tag name to resolve
+ * @returns The rule applying to the tag, or `undefined` if the tag is not allowed
+ *
+ * @example
+ * ```typescript
+ * import { getTagRule } from './sanitizers';
+ *
+ * const options = {
+ *   tags: { "*": {}, "x-*": { limits: { nesting: 1 } }, "x-card": {} },
+ *   tagPatterns: [{ pattern: /^h[1-6]$/, rule: {} }]
+ * };
+ *
+ * getTagRule(options, "x-card"); // {}
+ * getTagRule(options, "x-list"); // { limits: { nesting: 1 } }
+ * getTagRule(options, "h2"); // {} from the pattern
+ * getTagRule(options, "span"); // {} from "*"
+ * ```
+ */
+export function getTagRule(
+  options: SanitizerOptions,
+  tagName: TagKey,
+): ReadonlyDeep<TagRule> | undefined {
+  const tags = options.tags;
+
+  const rule = getOwnEntry(tags, tagName);
+  if (rule) {
+    return rule;
+  }
+
+  for (const [regex, rule] of getGlobRules(tags)) {
+    if (regex.test(tagName)) {
+      return rule;
+    }
+  }
+
+  for (const { pattern, rule } of options.tagPatterns ?? []) {
+    if (pattern.test(tagName)) {
+      return rule;
+    }
+  }
+
+  return getOwnEntry(tags, "*");
+}
+
+/**
+ * Returns the function validating the URLs allowed by a URL rule.
+ *
+ * The validator is built on first use and cached for as long as the rule object is alive,
+ * so sanitizing many values against the same rule only builds it once.
+ *
+ * @param rule - The URL rule defining allowed protocols, hosts, ports and paths
+ * @returns The compiled URL validator
+ *
+ * @example
+ * ```typescript
+ * import { getUrlValidator } from './sanitizers';
+ *
+ * const isAllowed = getUrlValidator({ mode: "url", protocols: ["https"], hosts: ["example.com"] });
+ * console.log(isAllowed("https://example.com/path?q=1")); // true
+ * ```
+ *
+ * @throws {Error} Throws an error if the rule contains an invalid protocol, host or port
+ */
+export function getUrlValidator(
+  rule: ReadonlyDeep<TagAttributeSrcsetValueRule | TagAttributeUrlValueRule>,
+): (value: string) => boolean {
+  let validator = urlValidatorCache.get(rule);
+  if (!validator) {
+    validator = buildUrlValidator(rule);
+    urlValidatorCache.set(rule, validator);
+  }
+
+  return validator;
+}
+
+/**
+ * Checks whether some attribute rules require an attribute, wildcard and glob rules aside.
+ *
+ * @param rules - The attribute rules of a tag, merged with the global ones
+ * @returns `true` if an element without attributes would miss a required attribute
+ */
+export function hasRequiredAttributes(
+  rules:
+    | ReadonlyDeep<Record<TagAttributeKey, TagAttributeValueRule>>
+    | undefined,
+): boolean {
+  return Object.entries(rules ?? {}).some(
+    ([attrName, rule]) => rule.required === true && !isGlob(attrName),
+  );
+}
+
 /**
  * Sanitizes all attributes of an HTML element according to the provided rules.
  *
  * This function processes all attributes present on an element, validating them against
- * their specific rules or falling back to wildcard rules. It handles both attribute
- * validation and required attribute enforcement.
+ * the rule resolved by {@link getAttributeRule}, from the tag rules first and the global
+ * rules only when no tag rule matches. It handles attribute validation, URL transforms once
+ * every attribute is validated and required attribute enforcement.
  *
  * @param element - The HTML element whose attributes should be sanitized
  * @param rules - The attribute rules defining validation and requirements
  * @param errorHandling - Error handling configuration for attribute validation
+ * @param patterns - The attribute patterns tried after exact and glob attribute keys
+ * @param globalRules - The attribute rules shared by every tag, tried when no tag rule matches
  * @returns `true` if processing should continue, `false` if the element was removed
  *
  * @example
@@ -167,26 +428,39 @@ export function sanitizeAttributes(
     | ReadonlyDeep<Record<TagAttributeKey, TagAttributeValueRule>>
     | undefined,
   errorHandling?: ErrorHandling | undefined,
+  patterns?: ReadonlyDeep<TagAttributePattern[]> | undefined,
+  globalRules?:
+    | ReadonlyDeep<Record<TagAttributeKey, TagAttributeValueRule>>
+    | undefined,
 ) {
   const attributes = element.attribs;
+  const requiredRules = getAttributeRules(globalRules, rules);
   const keys = Object.keys(attributes);
+  const transformed: [
+    string,
+    ReadonlyDeep<TagAttributeSrcsetValueRule | TagAttributeUrlValueRule>,
+  ][] = [];
 
   // Fast path
   if (keys.length === 0) {
     // still need to enforce required with defaultValue injection if any
-    return enforceRequiredAttributes(element, rules, errorHandling);
+    return enforceRequiredAttributes(element, requiredRules, errorHandling);
   }
 
   // Validate all present attributes against scoped rule or "*" fallback.
   for (const name of keys) {
     const value = attributes[name];
-    const rule = rules?.[name] ?? rules?.["*"]; // fallback to global attribute rule if present
+    const rule = getAttributeRule(rules, patterns, name, globalRules);
+    const attrErrorHandling = resolveErrorHandling(
+      errorHandling,
+      rule?.errorHandling,
+    );
 
     const { globalProceed, localProceed } = sanitizeTagAttribute(
       { key: name, value },
       element,
       rule,
-      errorHandling?.attribute,
+      attrErrorHandling?.attribute,
     );
 
     if (!globalProceed) {
@@ -202,14 +476,137 @@ export function sanitizeAttributes(
         { key: name, value },
         element,
         rule!,
-        errorHandling,
+        attrErrorHandling,
       )
     ) {
       return false;
     }
+
+    if ((rule!.mode === "srcset" || rule!.mode === "url") && rule!.transforms) {
+      transformed.push([name, rule!]);
+    }
+  }
+
+  // Transforms run last, so the attributes they set are not sanitized as user input
+  for (const [name, rule] of transformed) {
+    const value = attributes[name];
+
+    if (value !== undefined) {
+      transformTagAttributeUrlValue({ key: name, value }, element, rule);
+    }
+  }
+
+  return enforceRequiredAttributes(element, requiredRules, errorHandling);
+}
+
+/**
+ * Sanitizes the source of embedded content against the embed policy of its tag.
+ *
+ * The source is read from the attribute set by the policy, or the default source attribute of
+ * the tag. Elements without a source are left untouched.
+ *
+ * @param element - The embedding element, such as an iframe
+ * @param policy - The embed policy of the tag
+ * @param errorHandling - Error handling configuration for disallowed sources
+ * @returns `true` if processing should continue, `false` if the element was removed
+ *
+ * @example
+ * ```typescript
+ * import { sanitizeEmbedSource } from './sanitizers';
+ *
+ * // <iframe src="https://www.youtube.com/embed/x">
+ * const result = sanitizeEmbedSource(
+ *   element,
+ *   { hosts: ["*.youtube.com"] },
+ *   "discardElement"
+ * );
+ * console.log(result); // true
+ * ```
+ */
+export function sanitizeEmbedSource(
+  element: Htmlparser2TreeAdapterMap["element"],
+  policy: ReadonlyDeep<TagEmbedPolicy>,
+  errorHandling?: EmbedSourceErrorHandlingMode | undefined,
+): boolean {
+  const key =
+    policy.attribute ?? (element.tagName === "object" ? "data" : "src");
+  const value = element.attribs[key];
+
+  if (value === undefined || isAllowedEmbedSource(value, policy)) {
+    return true;
+  }
+
+  return handleEmbedSourceError({ key, value }, element, errorHandling);
+}
+
+/**
+ * Sanitizes a script against the script policy of its tag.
+ *
+ * Scripts are only kept when their `src` is allowed by the policy and they carry the
+ * attributes it requires. Inline code is always stripped from the scripts kept.
+ *
+ * @param element - The script element
+ * @param policy - The script policy of the tag
+ * @param errorHandling - Error handling configuration for rejected scripts
+ * @returns `true` if processing should continue, `false` if the element was removed
+ *
+ * @example
+ * ```typescript
+ * import { sanitizeScript } from './sanitizers';
+ *
+ * // <script src="https://cdn.example.com/widget.js" integrity="sha384-...">
+ * const result = sanitizeScript(
+ *   element,
+ *   { hosts: ["cdn.example.com"], requireIntegrity: true },
+ *   "discardElement"
+ * );
+ * console.log(result); // true
+ * ```
+ */
+export function sanitizeScript(
+  element: Htmlparser2TreeAdapterMap["element"],
+  policy: ReadonlyDeep<TagScriptPolicy>,
+  errorHandling?: ScriptSourceErrorHandlingMode | undefined,
+): boolean {
+  const { crossorigin, integrity, src } = element.attribs;
+
+  if (src === undefined) {
+    return handleScriptSourceError(
+      element,
+      "Script without a source is not allowed",
+      errorHandling,
+    );
+  }
+
+  if (!isAllowedEmbedSource(src, policy)) {
+    return handleScriptSourceError(
+      element,
+      `Script source ${src} is not allowed`,
+      errorHandling,
+    );
+  }
+
+  if (policy.requireIntegrity && !integrity) {
+    return handleScriptSourceError(
+      element,
+      `Script ${src} requires an integrity attribute`,
+      errorHandling,
+    );
+  }
+
+  if (policy.requireCrossOrigin && crossorigin === undefined) {
+    return handleScriptSourceError(
+      element,
+      `Script ${src} requires a crossorigin attribute`,
+      errorHandling,
+    );
   }
 
-  return enforceRequiredAttributes(element, rules, errorHandling);
+  for (const child of [...element.children]) {
+    adapter.detachNode(child);
+  }
+
+  return true;
 }
 
 /**
@@ -396,7 +793,7 @@ export function sanitizeTagAttributeRecordValue(
   let output: TagAttributeValueRecord = [];
 
   for (const [index, { key, val }] of input.entries()) {
-    const pairRule = rule.values[key];
+    const pairRule = getOwnEntry(rule.values, key);
 
     if (seen.has(key)) {
       const result = handleTagAttributeRecordValueDuplicateError(
@@ -608,7 +1005,236 @@ export function sanitizeTagAttributeSimpleValue(
 }
 
 /**
- * Sanitizes a tag attribute value based on its mode (record, set, or simple).
+ * Sanitizes a tag attribute holding a list of image candidates, like `srcset`.
+ *
+ * This function parses the attribute value following the HTML `srcset` parsing rules, or as
+ * whitespace-separated URLs with the `"urls"` format, validates the URL of each candidate like
+ * {@link sanitizeTagAttributeUrlValue} does and its descriptor against the allowed kinds, and
+ * re-serializes only the valid candidates.
+ *
+ * @param attribute - The attribute containing the candidates
+ * @param element - The HTML element containing the attribute
+ * @param rule - The srcset validation rule defining allowed URLs and descriptors
+ * @param errorHandling - Error handling configuration for validation failures
+ * @returns `true` if processing should continue, `false` if the element was removed
+ *
+ * @example
+ * ```typescript
+ * import { sanitizeTagAttributeSrcsetValue } from './sanitizers';
+ *
+ * const element = document.createElement("img");
+ * const attribute = {
+ *   key: "srcset",
+ *   value: "small.png 480w, javascript:alert(1) 800w, large.png 1080w, huge.png 2q"
+ * };
+ *
+ * const result = sanitizeTagAttributeSrcsetValue(
+ *   attribute,
+ *   element,
+ *   { mode: "srcset", allowRelative: true },
+ *   { attributeSrcsetValue: "dropCandidate" }
+ * );
+ * console.log(element.attribs.srcset); // "small.png 480w, large.png 1080w"
+ * console.log(result); // true
+ * ```
+ *
+ * @throws {Error} Throws an error if the rule contains an invalid protocol, host or port
+ */
+export function sanitizeTagAttributeSrcsetValue(
+  attribute: TagAttribute,
+  element: Htmlparser2TreeAdapterMap["element"],
+  rule: ReadonlyDeep<TagAttributeSrcsetValueRule>,
+  errorHandling?: ErrorHandling | undefined,
+): boolean {
+  const input = parseCandidates(attribute.value, rule);
+  const isAllowedUrl = getUrlValidator(rule);
+  const output: TagAttributeValueCandidate[] = [];
+
+  for (const [index, { descriptors, url }] of input.entries()) {
+    if (
+      !isAllowedUrl(url) ||
+      !isValidDescriptor(descriptors, rule.descriptors)
+    ) {
+      if (
+        !handleTagAttributeSrcsetValueError(
+          attribute,
+          element,
+          input,
+          index,
+          rule,
+          errorHandling?.attributeSrcsetValue,
+        )
+      ) {
+        return false;
+      }
+      continue;
+    }
+
+    output.push({ descriptors, url });
+  }
+
+  element.attribs[attribute.key] = serializeCandidates(output, rule);
+
+  return true;
+}
+
+/**
+ * Sanitizes a tag attribute with inline CSS declarations.
+ *
+ * This function parses the attribute value as a CSS declaration list with postcss,
+ * validates each declaration against the comparator of its property, and re-serializes
+ * only the allowed declarations. Comments and nested rules are discarded.
+ *
+ * @param attribute - The attribute containing the declarations
+ * @param element - The HTML element containing the attribute
+ * @param rule - The style validation rule defining allowed properties and their values
+ * @param errorHandling - Error handling configuration for various validation failures
+ * @returns `true` if processing should continue, `false` if the element was removed
+ *
+ * @example
+ * ```typescript
+ * import { sanitizeTagAttributeStyleValue } from './sanitizers';
+ * import type { ErrorHandling } from '../types/sanitizer';
+ *
+ * const element = document.createElement("div");
+ * const attribute = {
+ *   key: "style",
+ *   value: "color: red; background: url(data:image/png;base64,AAAA); text-align: center !important"
+ * };
+ *
+ * const rule = {
+ *   mode: "style",
+ *   allowImportant: true,
+ *   properties: {
+ *     "color": /^[a-z]+$/,
+ *     "text-align": ["left", "center", "right"]
+ *   }
+ * };
+ *
+ * const errorHandling: ErrorHandling = {
+ *   attributeStyleValue: "dropDeclaration"
+ * };
+ *
+ * const result = sanitizeTagAttributeStyleValue(attribute, element, rule, errorHandling);
+ * console.log(element.attribs.style); // "color:red;text-align:center !important"
+ * console.log(result); // true
+ * ```
+ */
+export function sanitizeTagAttributeStyleValue(
+  attribute: TagAttribute,
+  element: Htmlparser2TreeAdapterMap["element"],
+  rule: ReadonlyDeep<TagAttributeStyleValueRule>,
+  errorHandling?: ErrorHandling | undefined,
+): boolean {
+  const input = parseStyle(attribute.value);
+
+  if (!input) {
+    return handleTagAttributeValueError(
+      attribute,
+      element,
+      rule,
+      errorHandling?.attributeValue,
+      {
+        attribute: attribute.key,
+        kind: "attributeValue",
+        message: `Value ${attribute.value} for attribute ${attribute.key} is not a valid declaration list`,
+        value: attribute.value,
+      },
+    );
+  }
+
+  const output: string[] = [];
+
+  for (const [index, { important, key, val }] of input.entries()) {
+    const propertyRule = getOwnEntry(rule.properties, key);
+
+    if (
+      !propertyRule ||
+      !matchComparator(propertyRule, val) ||
+      (important && !rule.allowImportant)
+    ) {
+      if (
+        !handleTagAttributeStyleValueError(
+          attribute,
+          element,
+          input,
+          index,
+          rule,
+          errorHandling?.attributeStyleValue,
+        )
+      ) {
+        return false;
+      }
+      continue;
+    }
+
+    output.push(`${key}:${val}${important ? " !important" : ""}`);
+  }
+
+  element.attribs[attribute.key] = output.join(";");
+
+  return true;
+}
+
+/**
+ * Sanitizes a tag attribute with URL values.
+ *
+ * This function validates a URL attribute value against the protocols, hosts, ports,
+ * paths and relative URL policy of the rule. The underlying validator is built once
+ * per rule with {@link buildUrlValidator} and reused for subsequent values.
+ *
+ * @param attribute - The attribute containing the URL
+ * @param element - The HTML element containing the attribute
+ * @param rule - The URL validation rule defining allowed protocols and hosts
+ * @param errorHandling - Error handling configuration for validation failures
+ * @returns `true` if processing should continue, `false` if the element was removed
+ *
+ * @example
+ * ```typescript
+ * import { sanitizeTagAttributeUrlValue } from './sanitizers';
+ *
+ * const element = document.createElement("a");
+ * const attribute = { key: "href", value: "javascript:alert('xss')" };
+ *
+ * const rule = {
+ *   mode: "url",
+ *   protocols: ["http", "https"],
+ *   hosts: ["example.com"],
+ *   allowRelative: true
+ * };
+ *
+ * const result = sanitizeTagAttributeUrlValue(
+ *   attribute,
+ *   element,
+ *   rule,
+ *   "discardAttribute"
+ * );
+ * console.log(element.attribs.href); // undefined (removed)
+ * console.log(result); // true
+ * ```
+ *
+ * @throws {Error} Throws an error if the rule contains an invalid protocol, host or port
+ */
+export function sanitizeTagAttributeUrlValue(
+  attribute: TagAttribute,
+  element: Htmlparser2TreeAdapterMap["element"],
+  rule: ReadonlyDeep<TagAttributeUrlValueRule>,
+  errorHandling?: TagAttributeUrlValueErrorHandlingMode | undefined,
+): boolean {
+  if (!getUrlValidator(rule)(attribute.value)) {
+    return handleTagAttributeUrlValueError(
+      attribute,
+      element,
+      rule,
+      errorHandling,
+    );
+  }
+
+  return true;
+}
+
+/**
+ * Sanitizes a tag attribute value based on its mode (record, set, simple, srcset, style, or url).
  *
  * This is the main dispatcher function that routes attribute value sanitization
  * to the appropriate specialized function based on the rule's mode. It also
@@ -657,7 +1283,9 @@ export function sanitizeTagAttributeSimpleValue(
  *   attributeValue: "applyDefaultValue",
  *   attributeValueTooLong: "trimExcess",
  *   attributeSetValue: "dropValue",
- *   attributeRecordValue: "dropPair"
+ *   attributeRecordValue: "dropPair",
+ *   attributeStyleValue: "dropDeclaration",
+ *   attributeUrlValue: "discardAttribute"
  * };
  *
  * const classResult = sanitizeTagAttributeValue(classAttribute, element, classRule, errorHandling);
@@ -716,5 +1344,204 @@ export function sanitizeTagAttributeValue(
         rule,
         errorHandling?.attributeValue,
       );
+    case "srcset":
+      return sanitizeTagAttributeSrcsetValue(
+        attribute,
+        element,
+        rule,
+        errorHandling,
+      );
+    case "style":
+      return sanitizeTagAttributeStyleValue(
+        attribute,
+        element,
+        rule,
+        errorHandling,
+      );
+    case "url":
+      return sanitizeTagAttributeUrlValue(
+        attribute,
+        element,
+        rule,
+        errorHandling?.attributeUrlValue,
+      );
   }
 }
+
+/**
+ * Applies a tag transform to an element.
+ *
+ * Renames the element, then sets or removes the transform attributes, and finally runs
+ * the transform callback with the element.
+ *
+ * @param element - The HTML element to transform
+ * @param transform - The transform to apply
+ *
+ * @example
+ * ```typescript
+ * import { transformTag } from './sanitizers';
+ *
+ * // <ol start="3">
+ * transformTag(element, { tagName: "ul", attributes: { start: null, class: "list" } });
+ * // <ul class="list">
+ * ```
+ */
+export function transformTag(
+  element: Htmlparser2TreeAdapterMap["element"],
+  transform: ReadonlyDeep<TagTransform>,
+) {
+  if (transform.tagName) {
+    element.tagName = transform.tagName;
+  }
+
+  for (const [key, value] of Object.entries(transform.attributes ?? {})) {
+    if (value === null) {
+      delete element.attribs[key];
+    } else {
+      element.attribs[key] = value;
+    }
+  }
+
+  transform.callback?.(element);
+}
+
+/**
+ * Rewrites an allowed URL attribute value with the transforms of its rule.
+ *
+ * The transforms run in order, each receiving the value returned by the previous one
+ * along with the element, which they are free to mutate. Srcset values are rewritten
+ * candidate by candidate, keeping their descriptors.
+ *
+ * @param attribute - The attribute holding the allowed URL or candidates
+ * @param element - The HTML element containing the attribute
+ * @param rule - The URL or srcset rule holding the transforms
+ *
+ * @example
+ * ```typescript
+ * import { transformTagAttributeUrlValue } from './sanitizers';
+ *
+ * // <a href="http://example.com/?utm_source=x">
+ * transformTagAttributeUrlValue(
+ *   { key: "href", value: "http://example.com/?utm_source=x" },
+ *   element,
+ *   { mode: "url", transforms: [urlTransforms.stripQueryParameters(), urlTransforms.upgradeToHttps()] }
+ * );
+ * // <a href="https://example.com/">
+ * ```
+ */
+export function transformTagAttributeUrlValue(
+  attribute: TagAttribute,
+  element: Htmlparser2TreeAdapterMap["element"],
+  rule: ReadonlyDeep<TagAttributeSrcsetValueRule | TagAttributeUrlValueRule>,
+) {
+  const transform = (value: string) =>
+    (rule.transforms ?? []).reduce(
+      (url, transform) => transform(url, { attribute: attribute.key, element }),
+      value,
+    );
+
+  element.attribs[attribute.key] =
+    rule.mode === "srcset"
+      ? serializeCandidates(
+          parseCandidates(attribute.value, rule).map(
+            ({ descriptors, url }) => ({
+              descriptors,
+              url: transform(url),
+            }),
+          ),
+          rule,
+        )
+      : transform(attribute.value);
+}
+
+// Compiles the glob keys of a record of rules once, in key order, the "*" key excluded
+// Looks up an attribute rule by exact name, glob key or pattern, leaving out the "*" key
+function findNamedAttributeRule(
+  rules:
+    | ReadonlyDeep<Record<TagAttributeKey, TagAttributeValueRule>>
+    | undefined,
+  patterns: ReadonlyDeep<TagAttributePattern[]> | undefined,
+  name: string,
+): ReadonlyDeep<TagAttributeValueRule> | undefined {
+  const rule = getOwnEntry(rules, name);
+  if (rule) {
+    return rule;
+  }
+
+  for (const [regex, rule] of getGlobRules(rules)) {
+    if (regex.test(name)) {
+      return rule;
+    }
+  }
+
+  for (const { pattern, rule } of patterns ?? []) {
+    if (pattern.test(name)) {
+      return rule;
+    }
+  }
+
+  return undefined;
+}
+
+function getGlobRules<T>(
+  rules: Readonly<Record<string, T>> | undefined,
+): [RegExp, T][] {
+  if (!rules) {
+    return [];
+  }
+
+  let globs = globCache.get(rules) as [RegExp, T][] | undefined;
+  if (!globs) {
+    globs = Object.entries(rules)
+      .filter(([key]) => key !== "*" && isGlob(key))
+      .map(([key, rule]) => [globToRegex(key), rule]);
+    globCache.set(rules, globs);
+  }
+
+  return globs;
+}
+
+// Checks the descriptor of an image candidate, a positive integer width or positive density
+function isValidDescriptor(
+  descriptors: string,
+  kinds: readonly ("density" | "width")[] = ["density", "width"],
+): boolean {
+  if (!descriptors) {
+    return true;
+  }
+
+  if (widthDescriptor.test(descriptors)) {
+    return kinds.includes("width") && Number.parseInt(descriptors, 10) > 0;
+  }
+
+  if (densityDescriptor.test(descriptors)) {
+    return kinds.includes("density") && Number.parseFloat(descriptors) > 0;
+  }
+
+  return false;
+}
+
+// Parses image candidates, or whitespace-separated URLs without descriptors
+function parseCandidates(
+  value: string,
+  rule: ReadonlyDeep<TagAttributeSrcsetValueRule>,
+): TagAttributeValueCandidate[] {
+  return rule.format === "urls"
+    ? value
+        .split(/[\t\n\f\r ]+/)
+        .filter(Boolean)
+        .map((url) => ({ descriptors: "", url }))
+    : parseSrcset(value);
+}
+
+// Joins candidates back into an attribute value of the format of the rule
+function serializeCandidates(
+  candidates: TagAttributeValueCandidate[],
+  rule: ReadonlyDeep<TagAttributeSrcsetValueRule>,
+): string {
+  return candidates
+    .map(({ descriptors, url }) =>
+      descriptors ? `${url} ${descriptors}` : url,
+    )
+    .join(rule.format === "urls" ? " " : ", ");
+}
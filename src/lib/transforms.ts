@@ -0,0 +1,172 @@
+import type { TagAttributeUrlTransform } from "../types/rules";
+
+import { globToRegex } from "./utils/glob";
+import { parseAbsoluteUrl } from "./utils/url";
+
+type ExternalLinksOptions = {
+  /** Hostnames of the site itself, whose links are left untouched (optional) */
+  hosts?: string[];
+  /** Tokens added to the `rel` attribute (optional, defaults to "noopener noreferrer") */
+  rel?: string;
+  /** Value of the `target` attribute, or `null` to leave it untouched (optional, defaults to "_blank") */
+  target?: null | string;
+};
+
+/**
+ * Sets `rel` and `target` on the element when the URL points to another host, merging the
+ * `rel` tokens with the existing ones. Relative URLs and URLs without a host are internal.
+ */
+function externalLinks({
+  hosts = [],
+  rel = "noopener noreferrer",
+  target = "_blank",
+}: ExternalLinksOptions = {}): TagAttributeUrlTransform {
+  const internalHosts = new Set(hosts.map((host) => host.toLowerCase()));
+  const relTokens = rel.split(/\s+/).filter(Boolean);
+
+  return (value, { element }) => {
+    const url = parseAbsoluteUrl(value);
+    if (!url?.hostname || internalHosts.has(url.hostname)) {
+      return value;
+    }
+
+    const tokens = new Set([
+      ...(element.attribs.rel ?? "").split(/\s+/).filter(Boolean),
+      ...relTokens,
+    ]);
+    element.attribs.rel = [...tokens].join(" ");
+
+    if (target !== null) {
+      element.attribs.target = target;
+    }
+
+    return value;
+  };
+}
+
+/**
+ * Routes absolute `http` and `https` URLs through a proxy, appending the encoded URL to the
+ * prefix. Relative URLs and URLs already starting with the prefix are left untouched.
+ */
+function proxy(prefix: string): TagAttributeUrlTransform {
+  return (value) => {
+    const url = parseAbsoluteUrl(value);
+    if (
+      !url ||
+      (url.protocol !== "http:" && url.protocol !== "https:") ||
+      url.href.startsWith(prefix)
+    ) {
+      return value;
+    }
+
+    return `${prefix}${encodeURIComponent(url.href)}`;
+  };
+}
+
+/**
+ * Removes query parameters whose name matches one of the globs, tracking parameters by
+ * default. The rest of the URL is kept as is, relative URLs included.
+ */
+function stripQueryParameters(
+  names: string[] = ["utm_*", "fbclid"],
+): TagAttributeUrlTransform {
+  const patterns = names.map(globToRegex);
+
+  return (value) => {
+    const hashIndex = value.indexOf("#");
+    const end = hashIndex === -1 ? value.length : hashIndex;
+    const queryIndex = value.indexOf("?");
+
+    if (queryIndex === -1 || queryIndex > end) {
+      return value;
+    }
+
+    const params = value
+      .slice(queryIndex + 1, end)
+      .split("&")
+      .filter((param) => {
+        const name = decodeQueryComponent(param.split("=", 1)[0]!);
+        return !patterns.some((pattern) => pattern.test(name));
+      });
+
+    return `${value.slice(0, queryIndex)}${params.length ? `?${params.join("&")}` : ""}${value.slice(end)}`;
+  };
+}
+
+/**
+ * Upgrades absolute `http` URLs to `https`, leaving every other URL untouched.
+ */
+function upgradeToHttps(): TagAttributeUrlTransform {
+  return (value) => {
+    const url = parseAbsoluteUrl(value);
+    if (url?.protocol !== "http:") {
+      return value;
+    }
+
+    url.protocol = "https:";
+    return url.href;
+  };
+}
+
+/**
+ * Built-in URL transforms to use in the `transforms` of URL and srcset attribute rules.
+ *
+ * Each entry is a factory returning a {@link TagAttributeUrlTransform}:
+ *
+ * - `externalLinks(options?)`: Sets `rel="noopener noreferrer"` and `target="_blank"` on
+ *   elements linking to other hosts than the listed ones
+ * - `proxy(prefix)`: Routes absolute `http` and `https` URLs through a proxy, such as an
+ *   image proxy, appending the encoded URL to the prefix
+ * - `stripQueryParameters(names?)`: Removes query parameters matching the globs, `utm_*`
+ *   and `fbclid` by default
+ * - `upgradeToHttps()`: Upgrades `http` URLs to `https`
+ *
+ * The attributes set on the element, such as `rel` and `target`, are not sanitized.
+ *
+ * @example
+ * ```typescript
+ * import { sanitizeHtml, urlTransforms } from 'sanitize-html';
+ *
+ * const clean = sanitizeHtml(dirty, {
+ *   tags: {
+ *     a: {
+ *       attributes: {
+ *         href: {
+ *           mode: "url",
+ *           protocols: ["http", "https"],
+ *           transforms: [
+ *             urlTransforms.stripQueryParameters(),
+ *             urlTransforms.upgradeToHttps(),
+ *             urlTransforms.externalLinks({ hosts: ["example.com"] })
+ *           ]
+ *         }
+ *       }
+ *     },
+ *     img: {
+ *       attributes: {
+ *         src: {
+ *           mode: "url",
+ *           protocols: ["https"],
+ *           transforms: [urlTransforms.proxy("https://images.example.com/?url=")]
+ *         }
+ *       }
+ *     }
+ *   }
+ * });
+ * ```
+ */
+export const urlTransforms = {
+  externalLinks,
+  proxy,
+  stripQueryParameters,
+  upgradeToHttps,
+};
+
+// Decodes a query parameter name, keeping it as is when it is malformed
+function decodeQueryComponent(component: string): string {
+  try {
+    return decodeURIComponent(component.replaceAll("+", " "));
+  } catch {
+    return component;
+  }
+}
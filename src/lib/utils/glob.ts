@@ -0,0 +1,15 @@
+// Characters with a special meaning in globs
+const globCharacters = /[*?]/;
+
+export function globToRegex(glob: string): RegExp {
+  const source = glob
+    .replaceAll(/[.+^${}()|[\]\\]/g, String.raw`\$&`)
+    .replaceAll("*", ".*")
+    .replaceAll("?", ".");
+
+  return new RegExp(`^${source}$`);
+}
+
+export function isGlob(key: string): boolean {
+  return globCharacters.test(key);
+}
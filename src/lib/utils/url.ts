@@ -1,3 +1,8 @@
+import type { ReadonlyDeep } from "type-fest";
+
+import type { TagAttributeUrlValueComparator } from "../../types/comparators";
+import type { TagEmbedPolicy } from "../../types/tag";
+
 // Base patterns (unclamped)
 const protocolRe = /[a-z][a-z0-9+.-]*/i;
 
@@ -36,40 +41,123 @@ const ipv4Validator = new RegExp(`^${ipv4Re.source}$`, "i");
 const ipv6Validator = new RegExp(`^${ipv6Re.source}$`, "i");
 const domainValidator = new RegExp(`^${domainRe.source}$`, "i");
 
-// Helper
-const escapeForRegex = (s: string) =>
-  s.replaceAll(/[.*+?^${}()|[\]\\]/g, String.raw`\$&`);
+// Protocols allowed when a rule lists none
+const defaultProtocols: readonly string[] = ["http", "https"];
+
+// Base resolving relative URLs, the reserved .invalid TLD never names a real host
+const relativeBase = "https://relative.invalid";
+
+// C0 control characters and DEL, which browsers strip or ignore when parsing URLs
+const ignoredCharacters = new RegExp(
+  `[${String.fromCharCode(0x00)}-${String.fromCharCode(0x1f)}${String.fromCharCode(0x7f)}]`,
+  "g",
+);
+
+// The scheme of an absolute URL, before its first colon
+const schemeRe = /^([a-z][a-z0-9+.-]*):/i;
 
-// Fallback
-const hostFallback = String.raw`(?:${domainRe.source}|${ipv4Re.source}|\[(?:${ipv6Re.source})\])`;
+// The authority of a protocol-relative URL, browsers reading backslashes as slashes
+const authorityRe = /^[/\\]{2}/;
 
 type HostKind = "domain" | "ipv4" | "ipv6";
 
-export function buildAllowedUrlRegex(
-  protocols: string[],
-  hosts: string[], // domains, IPv4, or IPv6 (bare or [bracketed])
-  allowRelative: boolean,
-): RegExp {
-  // Validate protocols
-  for (const p of protocols) {
-    if (!protocolValidator.test(p)) throw new Error(`Invalid protocol: ${p}`);
+type UrlValidatorOptions = ReadonlyDeep<
+  Omit<TagAttributeUrlValueComparator, "mode">
+>;
+
+/**
+ * Builds a function checking URLs against the protocols, hosts, ports and paths of a rule.
+ *
+ * URLs are parsed the way browsers do, with the WHATWG URL parser, once control characters
+ * and surrounding whitespace are removed. Attribute values are already decoded by the HTML
+ * parser, so character references left in them are literal text and are not decoded again.
+ * Whether a URL is relative is decided from the value itself, by its lack of a scheme and
+ * of an authority.
+ *
+ * - URLs with a scheme must use one of the protocols, `http` and `https` when none are listed
+ * - Protocol-relative URLs (`//host/path`) need `http` or `https`
+ * - Other relative URLs, including `?query` and `#fragment`, need `allowRelative`
+ * - Hosts, ports and paths, when listed, apply to every URL with a host, URLs without one
+ *   such as `mailto:` links are only checked against the protocols
+ *
+ * @param rule - The protocols, hosts, ports, paths and relative URL policy to enforce
+ * @returns A function returning whether a URL is allowed
+ *
+ * @example
+ * ```typescript
+ * import { buildUrlValidator } from './utils/url';
+ *
+ * const isAllowed = buildUrlValidator({ protocols: ["https", "mailto"], allowRelative: true });
+ * isAllowed("https://example.com:8443/docs?q=1#top"); // true
+ * isAllowed("mailto:someone@example.com"); // true
+ * isAllowed("#top"); // true
+ * isAllowed("java\tscript:alert(1)"); // false
+ * ```
+ *
+ * @throws {Error} Throws an error if the rule contains an invalid protocol, host or port
+ */
+export function buildUrlValidator(
+  rule: UrlValidatorOptions,
+): (value: string) => boolean {
+  for (const p of rule.protocols ?? []) {
+    if (!isValidProtocol(p)) throw new Error(`Invalid protocol: ${p}`);
   }
-  // Validate hosts
-  for (const h of hosts) {
+  for (const h of rule.hosts ?? []) {
     if (!classifyHost(h)) throw new Error(`Invalid host: ${h}`);
   }
+  for (const port of rule.ports ?? []) {
+    if (!isValidPort(port)) throw new Error(`Invalid port: ${port}`);
+  }
 
-  const protoPart = protocols.length
-    ? `(?:${protocols.map(escapeForRegex).join("|")})`
-    : `(?:${protocolRe.source})`;
+  const protocols = new Set(
+    (rule.protocols?.length ? rule.protocols : defaultProtocols).map((p) =>
+      p.toLowerCase(),
+    ),
+  );
+  const hosts = new Set(rule.hosts?.map(normalizeHost));
+  const ports = new Set(rule.ports?.map(String));
+  const paths = rule.paths ?? [];
 
-  const hostPart = hosts.length ? hostPatternFromList(hosts) : hostFallback;
+  const isAllowed = (input: string) => {
+    let url: URL;
+    try {
+      url = new URL(input, relativeBase);
+    } catch {
+      return false;
+    }
 
-  const absolutePart = `${protoPart}://${hostPart}`;
-  const relativePart = allowRelative ? String.raw`|(?:/[^\s]*)` : "";
+    const scheme = schemeRe.exec(input)?.[1]?.toLowerCase();
 
-  const pattern = `^(?:${absolutePart}${relativePart})$`;
-  return new RegExp(pattern, "i");
+    if (scheme === undefined) {
+      // Resolved against the base, so only the path, query or fragment is set
+      if (!authorityRe.test(input)) {
+        return rule.allowRelative ?? false;
+      }
+
+      // Protocol-relative, inheriting the protocol of the page
+      if (!protocols.has("http") && !protocols.has("https")) {
+        return false;
+      }
+    } else if (!protocols.has(scheme)) {
+      return false;
+    }
+
+    if (url.host && hosts.size && !hosts.has(url.hostname)) {
+      return false;
+    }
+
+    if (url.host && ports.size && url.port && !ports.has(url.port)) {
+      return false;
+    }
+
+    return (
+      !url.host ||
+      !paths.length ||
+      paths.some((path) => matchesPathPrefix(url.pathname, path))
+    );
+  };
+
+  return (value) => isAllowed(normalizeUrl(value));
 }
 
 export function classifyHost(input: string): HostKind | null {
@@ -82,16 +170,85 @@ export function classifyHost(input: string): HostKind | null {
   return null;
 }
 
-export function hostPatternFromList(hosts: string[]): string {
-  // Build an alternation for concrete hosts
-  const parts = hosts.map((h) => {
-    const kind = classifyHost(h);
-    if (!kind) throw new Error(`Invalid host: ${h}`);
-    if (kind === "ipv6") {
-      const bare = h.startsWith("[") && h.endsWith("]") ? h.slice(1, -1) : h;
-      return String.raw`\[${escapeForRegex(bare)}\]`; // IPv6 must be bracketed in URLs
-    }
-    return escapeForRegex(h); // domain or IPv4
-  });
-  return `(?:${parts.join("|")})`;
+export function isAllowedEmbedSource(
+  value: string,
+  policy: ReadonlyDeep<Omit<TagEmbedPolicy, "attribute">>,
+): boolean {
+  const normalized = normalizeUrl(value);
+
+  let url: URL;
+  try {
+    url = new URL(normalized, relativeBase);
+  } catch {
+    return false;
+  }
+
+  // Resolved against the base, so the source has no scheme and no host of its own
+  if (isRelativeUrl(normalized)) {
+    return policy.allowRelative ?? false;
+  }
+
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    return false;
+  }
+
+  const hostname = url.hostname;
+  return (
+    (policy.hosts ?? []).some((host) =>
+      host.startsWith("*.")
+        ? hostname.endsWith(normalizeHost(host.slice(1)))
+        : hostname === normalizeHost(host),
+    ) ||
+    (policy.domains ?? []).some((domain) => {
+      const normalized = normalizeHost(domain);
+      return hostname === normalized || hostname.endsWith(`.${normalized}`);
+    })
+  );
+}
+
+export function isValidPort(port: number): boolean {
+  return Number.isInteger(port) && port >= 0 && port <= 65_535;
+}
+
+export function isValidProtocol(input: string): boolean {
+  return protocolValidator.test(input);
+}
+
+export function parseAbsoluteUrl(value: string): undefined | URL {
+  const normalized = normalizeUrl(value);
+  if (isRelativeUrl(normalized)) {
+    return undefined;
+  }
+
+  try {
+    return new URL(normalized, relativeBase);
+  } catch {
+    return undefined;
+  }
+}
+
+// Checks whether a normalized URL has neither a scheme nor an authority of its own
+function isRelativeUrl(input: string): boolean {
+  return !schemeRe.test(input) && !authorityRe.test(input);
+}
+
+// Matches a path against a prefix on segment boundaries, so /docs does not match /docsx
+function matchesPathPrefix(pathname: string, prefix: string): boolean {
+  return (
+    pathname === prefix ||
+    pathname.startsWith(prefix.endsWith("/") ? prefix : `${prefix}/`)
+  );
+}
+
+// Lowercases a configured host and brackets IPv6 addresses, as URL hostnames are
+function normalizeHost(host: string): string {
+  const lower = host.toLowerCase();
+  return classifyHost(lower) === "ipv6" && !lower.startsWith("[")
+    ? `[${lower}]`
+    : lower;
+}
+
+// Removes control characters and surrounding whitespace, as browsers do before parsing
+function normalizeUrl(value: string): string {
+  return value.replaceAll(ignoredCharacters, "").trim();
 }
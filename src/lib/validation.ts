@@ -0,0 +1,374 @@
+import type { ReadonlyDeep } from "type-fest";
+
+import type { TagAttributeValueRule } from "../types/rules";
+import type { SanitizerOptions } from "../types/sanitizer";
+import type { TagEmbedPolicy, TagLimits, TagRule } from "../types/tag";
+import type {
+  SanitizerOptionsDiagnostic,
+  SanitizerOptionsDiagnosticCode,
+  SanitizerOptionsDiagnosticSeverity,
+} from "../types/validation";
+
+import { getTagRule } from "./sanitizers";
+import { isGlob } from "./utils/glob";
+import { classifyHost, isValidPort, isValidProtocol } from "./utils/url";
+
+type Path = readonly (number | string)[];
+
+const modes = new Set(["record", "set", "simple", "srcset", "style", "url"]);
+
+/**
+ * Validates sanitizer options upfront and reports every problem found.
+ *
+ * Misconfigurations otherwise fail late or silently: empty separators split values
+ * character by character, limits of `0` are ignored, `required` is ignored on the `"*"`
+ * attribute rule and invalid URL hosts, ports or protocols only throw once a matching attribute
+ * is sanitized. Intended to run once at startup, failing fast on any `error` diagnostic.
+ *
+ * @param options - The sanitizer options to validate
+ * @returns The diagnostics found, in option order, empty when the options are valid
+ *
+ * @example
+ * ```typescript
+ * import { validateSanitizerOptions } from 'sanitize-html';
+ *
+ * const diagnostics = validateSanitizerOptions({
+ *   tags: {
+ *     a: {
+ *       attributes: {
+ *         href: { mode: "url", protocols: ["https:"], maxLength: 0 }
+ *       }
+ *     }
+ *   }
+ * });
+ * // [
+ * //   { code: "INVALID_LIMIT", path: "/tags/a/attributes/href/maxLength", severity: "error", ... },
+ * //   { code: "INVALID_PROTOCOL", path: "/tags/a/attributes/href/protocols/0", severity: "error", ... }
+ * // ]
+ *
+ * if (diagnostics.some((d) => d.severity === "error")) {
+ *   throw new Error(diagnostics.map((d) => `${d.path}: ${d.message}`).join("\n"));
+ * }
+ * ```
+ */
+export function validateSanitizerOptions(
+  options: SanitizerOptions,
+): SanitizerOptionsDiagnostic[] {
+  const diagnostics: SanitizerOptionsDiagnostic[] = [];
+
+  for (const [attrName, attrRule] of Object.entries(
+    options.globalAttributes ?? {},
+  )) {
+    validateAttributeRule(
+      isGlob(attrName),
+      attrRule,
+      ["globalAttributes", attrName],
+      diagnostics,
+    );
+  }
+
+  for (const [tagName, tagRule] of Object.entries(options.tags ?? {})) {
+    validateTagRule(tagRule, ["tags", tagName], options, diagnostics);
+  }
+
+  options.tagPatterns?.forEach(({ rule }, index) => {
+    validateTagRule(rule, ["tagPatterns", index, "rule"], options, diagnostics);
+  });
+
+  validateLimit(options.text?.maxLength, ["text", "maxLength"], diagnostics);
+
+  if (options.topLevelLimits) {
+    validateLimits(options.topLevelLimits, ["topLevelLimits"], diagnostics);
+  }
+
+  return diagnostics;
+}
+
+function report(
+  diagnostics: SanitizerOptionsDiagnostic[],
+  path: Path,
+  code: SanitizerOptionsDiagnosticCode,
+  severity: SanitizerOptionsDiagnosticSeverity,
+  message: string,
+) {
+  diagnostics.push({ code, message, path: toJsonPointer(path), severity });
+}
+
+function toJsonPointer(path: Path): string {
+  return path
+    .map(
+      (segment) =>
+        `/${String(segment).replaceAll("~", "~0").replaceAll("/", "~1")}`,
+    )
+    .join("");
+}
+
+function validateAttributeRule(
+  wildcard: boolean,
+  rule: ReadonlyDeep<TagAttributeValueRule>,
+  path: Path,
+  diagnostics: SanitizerOptionsDiagnostic[],
+) {
+  if (!modes.has(rule.mode)) {
+    report(
+      diagnostics,
+      [...path, "mode"],
+      "UNKNOWN_MODE",
+      "error",
+      `Mode ${String(rule.mode)} is not one of ${[...modes].join(", ")}`,
+    );
+    return;
+  }
+
+  if (wildcard && rule.required) {
+    report(
+      diagnostics,
+      [...path, "required"],
+      "REQUIRED_WILDCARD",
+      "warning",
+      "Wildcard, glob and pattern attribute rules cannot be required, name the attribute instead",
+    );
+  }
+
+  validateLimit(rule.maxLength, [...path, "maxLength"], diagnostics);
+
+  if (
+    rule.maxLength &&
+    rule.defaultValue !== undefined &&
+    rule.defaultValue.length > rule.maxLength
+  ) {
+    report(
+      diagnostics,
+      [...path, "defaultValue"],
+      "DEFAULT_VALUE_TOO_LONG",
+      "warning",
+      `Default value is longer than the maximum length of ${rule.maxLength}`,
+    );
+  }
+
+  switch (rule.mode) {
+    case "record":
+      validateLimit(rule.maxEntries, [...path, "maxEntries"], diagnostics);
+      validateSeparator(
+        rule.entrySeparator,
+        [...path, "entrySeparator"],
+        diagnostics,
+      );
+      validateSeparator(
+        rule.keyValueSeparator,
+        [...path, "keyValueSeparator"],
+        diagnostics,
+      );
+
+      if (
+        rule.entrySeparator &&
+        rule.entrySeparator === rule.keyValueSeparator
+      ) {
+        report(
+          diagnostics,
+          [...path, "keyValueSeparator"],
+          "CONFLICTING_SEPARATORS",
+          "error",
+          "Key-value separator must differ from the entry separator",
+        );
+      }
+      break;
+    case "set":
+      validateLimit(rule.maxEntries, [...path, "maxEntries"], diagnostics);
+      validateSeparator(rule.delimiter, [...path, "delimiter"], diagnostics);
+      break;
+    case "srcset":
+    case "url":
+      rule.protocols?.forEach((protocol, index) => {
+        if (!isValidProtocol(protocol)) {
+          report(
+            diagnostics,
+            [...path, "protocols", index],
+            "INVALID_PROTOCOL",
+            "error",
+            `Protocol ${protocol} is not valid, omit the trailing colon and slashes`,
+          );
+        }
+      });
+      rule.hosts?.forEach((host, index) => {
+        validateHost(host, [...path, "hosts", index], diagnostics);
+      });
+      rule.ports?.forEach((port, index) => {
+        if (!isValidPort(port)) {
+          report(
+            diagnostics,
+            [...path, "ports", index],
+            "INVALID_PORT",
+            "error",
+            `Port ${port} is not an integer between 0 and 65535`,
+          );
+        }
+      });
+      rule.paths?.forEach((urlPath, index) => {
+        if (!urlPath.startsWith("/")) {
+          report(
+            diagnostics,
+            [...path, "paths", index],
+            "UNREACHABLE_PATH",
+            "warning",
+            `Path ${urlPath} never matches, use /${urlPath} instead`,
+          );
+        }
+      });
+      break;
+    case "style":
+      for (const property of Object.keys(rule.properties)) {
+        // Declarations are matched by lowercase name, except custom properties
+        if (!property.startsWith("--") && property !== property.toLowerCase()) {
+          report(
+            diagnostics,
+            [...path, "properties", property],
+            "UNREACHABLE_STYLE_PROPERTY",
+            "warning",
+            `Property ${property} never matches, use ${property.toLowerCase()} instead`,
+          );
+        }
+      }
+      break;
+  }
+}
+
+function validateHost(
+  host: string,
+  path: Path,
+  diagnostics: SanitizerOptionsDiagnostic[],
+) {
+  if (!classifyHost(host)) {
+    report(
+      diagnostics,
+      path,
+      "INVALID_HOST",
+      "error",
+      `Host ${host} is not a valid domain, IPv4 or IPv6 address`,
+    );
+  }
+}
+
+function validateHostPolicy(
+  policy: ReadonlyDeep<Omit<TagEmbedPolicy, "attribute">>,
+  path: Path,
+  diagnostics: SanitizerOptionsDiagnostic[],
+) {
+  policy.domains?.forEach((domain, index) => {
+    validateHost(domain, [...path, "domains", index], diagnostics);
+  });
+
+  policy.hosts?.forEach((host, index) => {
+    validateHost(
+      host.startsWith("*.") ? host.slice(2) : host,
+      [...path, "hosts", index],
+      diagnostics,
+    );
+  });
+}
+
+function validateLimit(
+  limit: number | undefined,
+  path: Path,
+  diagnostics: SanitizerOptionsDiagnostic[],
+) {
+  if (limit === undefined || (Number.isInteger(limit) && limit > 0)) {
+    return;
+  }
+
+  report(
+    diagnostics,
+    path,
+    "INVALID_LIMIT",
+    "error",
+    limit === 0
+      ? "Limit of 0 is ignored, omit it to disable the limit"
+      : `Limit ${limit} must be a positive integer`,
+  );
+}
+
+function validateLimits(
+  limits: ReadonlyDeep<TagLimits>,
+  path: Path,
+  diagnostics: SanitizerOptionsDiagnostic[],
+) {
+  validateLimit(limits.children, [...path, "children"], diagnostics);
+  validateLimit(limits.nesting, [...path, "nesting"], diagnostics);
+}
+
+function validateSeparator(
+  separator: string,
+  path: Path,
+  diagnostics: SanitizerOptionsDiagnostic[],
+) {
+  if (separator === "") {
+    report(
+      diagnostics,
+      path,
+      "EMPTY_SEPARATOR",
+      "error",
+      "Separator must not be empty",
+    );
+  }
+}
+
+function validateTagRule(
+  rule: ReadonlyDeep<TagRule>,
+  path: Path,
+  options: SanitizerOptions,
+  diagnostics: SanitizerOptionsDiagnostic[],
+) {
+  for (const [attrName, attrRule] of Object.entries(rule.attributes ?? {})) {
+    validateAttributeRule(
+      isGlob(attrName),
+      attrRule,
+      [...path, "attributes", attrName],
+      diagnostics,
+    );
+  }
+
+  rule.allowedParents?.forEach((parent, index) => {
+    const renamed = getTagRule(options, parent)?.transform?.tagName;
+    if (renamed !== undefined && !rule.allowedParents!.includes(renamed)) {
+      report(
+        diagnostics,
+        [...path, "allowedParents", index],
+        "TRANSFORMED_PARENT",
+        "error",
+        `Tag ${parent} is transformed into ${renamed}, so it is never kept as a parent nor can wrap the element`,
+      );
+    }
+  });
+
+  rule.attributePatterns?.forEach((pattern, index) => {
+    validateAttributeRule(
+      true,
+      pattern.rule,
+      [...path, "attributePatterns", index, "rule"],
+      diagnostics,
+    );
+  });
+
+  if (rule.embed) {
+    validateHostPolicy(rule.embed, [...path, "embed"], diagnostics);
+  }
+
+  if (rule.limits) {
+    validateLimits(rule.limits, [...path, "limits"], diagnostics);
+  }
+
+  if (rule.script) {
+    validateHostPolicy(rule.script, [...path, "script"], diagnostics);
+  }
+
+  const target = rule.transform?.tagName;
+  if (target !== undefined && !getTagRule(options, target)) {
+    report(
+      diagnostics,
+      [...path, "transform", "tagName"],
+      "TRANSFORM_TARGET_NOT_ALLOWED",
+      "error",
+      `Tag ${target} has no rule, so every transformed element is disallowed`,
+    );
+  }
+}
@@ -1,14 +1,50 @@
 import type { Htmlparser2TreeAdapterMap } from "parse5-htmlparser2-tree-adapter";
+import type { ReadonlyDeep } from "type-fest";
 
 import { adapter } from "parse5-htmlparser2-tree-adapter";
 
-import type { SanitizerOptions, SanitizerState } from "../types/sanitizer";
+import type {
+  ErrorHandling,
+  SanitizerOptions,
+  SanitizerState,
+  TextOptions,
+} from "../types/sanitizer";
+import type { TagFilterFrame, TagKey, TagRule } from "../types/tag";
 
 import {
   handleTagChildrenError,
+  handleTagContentError,
+  handleTagFilterError,
   handleTagNestingError,
+  handleTextTooLongError,
 } from "./handlers/direct";
-import { sanitizeAttributes, sanitizeTag } from "./sanitizers";
+import { getTextContent, resolveErrorHandling } from "./helpers";
+import {
+  getAttributeRules,
+  getTagRule,
+  hasRequiredAttributes,
+  sanitizeAttributes,
+  sanitizeEmbedSource,
+  sanitizeScript,
+  sanitizeTag,
+  transformTag,
+} from "./sanitizers";
+
+// C0 and C1 control characters, except tabs, line feeds, form feeds and carriage returns
+const controlCharacters = new RegExp(
+  `[${String.fromCharCode(0x00)}-${String.fromCharCode(0x08)}${String.fromCharCode(0x0b)}${String.fromCharCode(0x0e)}-${String.fromCharCode(0x1f)}${String.fromCharCode(0x7f)}-${String.fromCharCode(0x9f)}]`,
+  "g",
+);
+
+// The parent and siblings of an element, bounding the nodes that replace it
+type ElementPosition = {
+  next: Htmlparser2TreeAdapterMap["childNode"] | null;
+  parent: Htmlparser2TreeAdapterMap["parentNode"] | null;
+  previous: Htmlparser2TreeAdapterMap["childNode"] | null;
+};
+
+// Bidi embeddings (LRE, RLE), pop (PDF), overrides (LRO, RLO) and isolates (LRI, RLI, FSI, PDI)
+const bidiOverrides = /[\u202A-\u202E\u2066-\u2069]/g;
 
 /**
  * Recursively walks through HTML nodes and applies sanitization rules.
@@ -39,7 +75,8 @@ import { sanitizeAttributes, sanitizeTag } from "./sanitizers";
  *
  * const state: SanitizerState = {
  *   rootNesting: 0,
- *   tagNesting: []
+ *   tagNesting: [],
+ *   text: { length: 0 }
  * };
  *
  * // Process a single node
@@ -49,7 +86,8 @@ import { sanitizeAttributes, sanitizeTag } from "./sanitizers";
  * @remarks
  * - Element nodes are processed by `walkElement` with increased nesting depth
  * - Comment nodes are removed unless `preserveComments` is enabled
- * - Other node types are currently not supported (see TODO comment)
+ * - Text nodes are filtered and transformed by `walkText` when `text` options are set
+ * - Other node types are left untouched
  * - Top-level nesting limits are enforced before processing element nodes
  */
 export function walkNode(
@@ -76,20 +114,268 @@ export function walkNode(
     });
   } else if (adapter.isCommentNode(node) && !options.preserveComments) {
     adapter.detachNode(node);
-  } else {
-    // TODO: Implement support for other node types
+  } else if (adapter.isTextNode(node) && options.text && node.parentNode) {
+    walkText(node, node.parentNode, options.text, options, state);
+  }
+}
+
+/**
+ * Runs the tag filter and the global filter on a sanitized element, handling its rejection.
+ *
+ * @param element - The element, once its children are sanitized
+ * @param tagRule - The rule of the element
+ * @param options - Sanitization configuration options
+ * @param errorHandling - The error handling resolved for the element
+ */
+function filterElement(
+  element: Htmlparser2TreeAdapterMap["element"],
+  tagRule: ReadonlyDeep<TagRule>,
+  options: SanitizerOptions,
+  errorHandling: ErrorHandling | undefined,
+) {
+  if (!tagRule.filter && !options.filter) {
+    return;
+  }
+
+  const frame: TagFilterFrame = {
+    attributes: element.attribs,
+    childCount: element.children.filter((child) => adapter.isElementNode(child))
+      .length,
+    tagName: element.tagName,
+    get text() {
+      return getTextContent(element);
+    },
+  };
+
+  if (
+    (tagRule.filter && !tagRule.filter(frame)) ||
+    (options.filter && !options.filter(frame))
+  ) {
+    handleTagFilterError(element, errorHandling?.tagFilter);
+  }
+}
+
+/**
+ * Checks an element against the content model of its tag and of its ancestors.
+ *
+ * @param tagName - The name of the element
+ * @param tagRule - The rule of the element
+ * @param options - Sanitization configuration options
+ * @param ancestors - The ancestors kept so far, the direct parent last
+ * @returns A description of the violation, or `undefined` if the element is allowed
+ */
+function findContentViolation(
+  tagName: TagKey,
+  tagRule: ReadonlyDeep<TagRule>,
+  options: SanitizerOptions,
+  ancestors: SanitizerState["tagNesting"],
+): string | undefined {
+  const parent = ancestors.at(-1)?.key;
+
+  if (
+    tagRule.allowedParents &&
+    (parent === undefined || !tagRule.allowedParents.includes(parent))
+  ) {
+    return parent === undefined
+      ? `Tag ${tagName} is not allowed at the root`
+      : `Tag ${tagName} is not allowed in ${parent}`;
+  }
+
+  if (parent !== undefined) {
+    const allowedChildren = getTagRule(options, parent)?.allowedChildren;
+    if (allowedChildren && !allowedChildren.includes(tagName)) {
+      return `Tag ${tagName} is not allowed as a child of ${parent}`;
+    }
+  }
+
+  for (const { key } of ancestors) {
+    if (getTagRule(options, key)?.forbiddenDescendants?.includes(tagName)) {
+      return `Tag ${tagName} is not allowed inside ${key}`;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Finds the nesting limit of an ancestor that more levels of elements would exceed.
+ *
+ * @param options - Sanitization configuration options
+ * @param ancestors - The ancestors kept so far, the direct parent last
+ * @param levels - The number of levels of elements added below the ancestors
+ * @returns The exceeded nesting limit, or `undefined` if no limit is exceeded
+ */
+function findNestingViolation(
+  options: SanitizerOptions,
+  ancestors: SanitizerState["tagNesting"],
+  levels: number,
+): number | undefined {
+  for (let i = ancestors.length - 1; i >= 0; i--) {
+    const { key, value } = ancestors[i];
+
+    const nesting = getTagRule(options, key)?.limits?.nesting;
+    if (nesting && value + levels > nesting) {
+      return nesting;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Finds the first allowed parent an element outside its allowed parents can be wrapped in.
+ *
+ * The wrapper must be allowed at the position of the element and able to contain it. As it
+ * is created without attributes, tags with required attributes cannot be wrappers, and the
+ * wrapper along with the element must fit in the nesting limits of the ancestors.
+ *
+ * @param tagName - The name of the element
+ * @param tagRule - The rule of the element
+ * @param options - Sanitization configuration options
+ * @param ancestors - The ancestors kept so far, the direct parent last
+ * @returns The tag name of the wrapper, or `undefined` if the parent is not the issue or none fits
+ */
+function findRequiredParent(
+  tagName: TagKey,
+  tagRule: ReadonlyDeep<TagRule>,
+  options: SanitizerOptions,
+  ancestors: SanitizerState["tagNesting"],
+): TagKey | undefined {
+  const parent = ancestors.at(-1)?.key;
+  if (
+    !tagRule.allowedParents ||
+    (parent !== undefined && tagRule.allowedParents.includes(parent)) ||
+    findNestingViolation(options, ancestors, 2) !== undefined
+  ) {
+    return undefined;
+  }
+
+  return tagRule.allowedParents.find((candidate) => {
+    const rule = getTagRule(options, candidate);
+
+    return (
+      rule !== undefined &&
+      (!rule.allowedChildren || rule.allowedChildren.includes(tagName)) &&
+      !rule.forbiddenDescendants?.includes(tagName) &&
+      !findContentViolation(candidate, rule, options, ancestors) &&
+      !hasRequiredAttributes(
+        getAttributeRules(options.globalAttributes, rule.attributes),
+      )
+    );
+  });
+}
+
+/**
+ * Processes an element whose tag is allowed at its position: its attributes, children and
+ * filters, steps 2 to 6 of {@link walkElement}.
+ *
+ * @param element - The HTML element node to process
+ * @param tagRule - The rule of the element, once transformed
+ * @param position - The position of the element before it was sanitized
+ * @param options - Sanitization configuration options
+ * @param state - Current sanitization state including nesting depth and tag tracking
+ */
+function walkAllowedElement(
+  element: Htmlparser2TreeAdapterMap["element"],
+  tagRule: ReadonlyDeep<TagRule>,
+  position: ElementPosition,
+  options: SanitizerOptions,
+  state: SanitizerState,
+) {
+  const tagName = element.tagName;
+  const errorHandling = resolveErrorHandling(
+    options.errorHandling,
+    tagRule.errorHandling,
+  );
+
+  // Attributes sanitization
+  if (
+    !sanitizeAttributes(
+      element,
+      tagRule.attributes,
+      errorHandling,
+      tagRule.attributePatterns,
+      options.globalAttributes,
+    )
+  ) {
+    walkUnwrappedChildren(element, position, options, state);
+    return;
+  }
+
+  // Embed source enforcement
+  if (
+    tagRule.embed &&
+    !sanitizeEmbedSource(element, tagRule.embed, errorHandling?.embedSource)
+  ) {
+    walkUnwrappedChildren(element, position, options, state);
+    return;
+  }
+
+  // Script policy enforcement
+  if (
+    tagRule.script &&
+    !sanitizeScript(element, tagRule.script, errorHandling?.scriptSource)
+  ) {
+    walkUnwrappedChildren(element, position, options, state);
+    return;
+  }
+
+  // Children enforcement
+  if (
+    tagRule.limits?.children &&
+    element.children.length > tagRule.limits.children
+  ) {
+    if (
+      !handleTagChildrenError(
+        element,
+        tagRule.limits.children,
+        errorHandling?.tagChildren,
+      )
+    ) {
+      return;
+    }
+  }
+
+  // Tag nesting enforcement
+  const nestingLimit = findNestingViolation(options, state.tagNesting, 1);
+  if (nestingLimit !== undefined) {
+    handleTagNestingError(element, nestingLimit, errorHandling?.tagNesting);
+    return;
+  }
+
+  // The nesting counters are shared by the whole walk and restored after the children
+  for (const ancestor of state.tagNesting) {
+    ancestor.value++;
+  }
+  state.tagNesting.push({ key: tagName, value: 0 });
+
+  // Children sanitization
+  let child = element.firstChild;
+  while (child) {
+    const next = child.nextSibling;
+    walkNode(child, options, state);
+    child = next;
   }
+
+  state.tagNesting.pop();
+  for (const ancestor of state.tagNesting) {
+    ancestor.value--;
+  }
+
+  // Filters, once the children are sanitized
+  filterElement(element, tagRule, options, errorHandling);
 }
 
 /**
  * Processes an HTML element node and applies comprehensive sanitization rules.
  *
  * This function handles the complete sanitization workflow for element nodes:
- * 1. Tag validation and sanitization
+ * 1. Tag validation and sanitization, including the tag transform if any
  * 2. Attribute validation and sanitization
  * 3. Children count enforcement
  * 4. Tag nesting depth enforcement
  * 5. Recursive processing of child nodes
+ * 6. Tag and global filters
  *
  * @param element - The HTML element node to process
  * @param options - Sanitization configuration options
@@ -127,7 +413,8 @@ export function walkNode(
  *
  * const state: SanitizerState = {
  *   rootNesting: 1,
- *   tagNesting: [{ key: "body", value: 0 }]
+ *   tagNesting: [{ key: "body", value: 0 }],
+ *   text: { length: 0 }
  * };
  *
  * // Process a div element
@@ -136,11 +423,16 @@ export function walkNode(
  *
  * @remarks
  * The function performs the following operations in order:
- * 1. **Tag Sanitization**: Validates the tag against rules and applies error handling
+ * 1. **Tag Sanitization**: Validates the tag against rules and applies error handling, then
+ *    applies the tag transform and validates the result against the rule of the new tag,
+ *    and checks the content model, going on inside the wrapper created for an element
+ *    outside its allowed parents
  * 2. **Attribute Sanitization**: Processes all attributes according to their rules
  * 3. **Children Enforcement**: Checks if the element has too many children
  * 4. **Nesting Enforcement**: Validates nesting depth for all parent tags in the hierarchy
  * 5. **Recursive Processing**: Walks through all child nodes with updated state
+ * 6. **Filtering**: Runs the tag filter and the global filter on the sanitized element,
+ *    discarding or unwrapping it when rejected
  *
  * If any validation step fails and the error handling strategy indicates to stop processing,
  * the function returns early without processing child nodes.
@@ -150,67 +442,199 @@ function walkElement(
   options: SanitizerOptions,
   state: SanitizerState,
 ) {
-  const tagName = element.tagName;
-  const tagRule = options.tags?.[tagName];
+  let tagName = element.tagName;
+  let tagRule = getTagRule(options, tagName);
+
+  // Children and escaped tags take the place of the element when it is unwrapped or escaped
+  const position: ElementPosition = {
+    next: element.nextSibling,
+    parent: element.parentNode,
+    previous: element.previousSibling,
+  };
 
   // Tag sanitization
   if (!sanitizeTag(element, tagRule, options.errorHandling?.tag)) {
+    walkUnwrappedChildren(element, position, options, state);
     return;
   }
 
-  // Attributes sanitization
-  if (!sanitizeAttributes(element, tagRule.attributes, options.errorHandling)) {
-    return;
+  // Tag transformation, validated against the rule of the resulting tag
+  if (tagRule.transform) {
+    transformTag(element, tagRule.transform);
+
+    if (element.tagName !== tagName) {
+      tagName = element.tagName;
+      tagRule = getTagRule(options, tagName);
+
+      if (!sanitizeTag(element, tagRule, options.errorHandling?.tag)) {
+        walkUnwrappedChildren(element, position, options, state);
+        return;
+      }
+    }
   }
 
-  // Children enforcement
-  if (
-    tagRule.limits?.children &&
-    element.children.length > tagRule.limits.children
-  ) {
-    if (
-      !handleTagChildrenError(
-        element,
-        tagRule.limits.children,
-        options.errorHandling?.tagChildren,
-      )
-    ) {
+  const errorHandling = resolveErrorHandling(
+    options.errorHandling,
+    tagRule.errorHandling,
+  );
+
+  // Content model enforcement, against the ancestors kept so far
+  const violation = findContentViolation(
+    tagName,
+    tagRule,
+    options,
+    state.tagNesting,
+  );
+  if (violation) {
+    const parent = element.parentNode;
+
+    handleTagContentError(
+      element,
+      violation,
+      findRequiredParent(tagName, tagRule, options, state.tagNesting),
+      errorHandling?.tagContent,
+    );
+
+    const wrapper = element.parentNode;
+    if (!wrapper || wrapper === parent || !adapter.isElementNode(wrapper)) {
+      walkUnwrappedChildren(element, position, options, state);
       return;
     }
-  }
 
-  const tagDepth = state.tagNesting.map((f) => ({ ...f }));
+    // A wrapped element goes on inside its new parent, which is kept as created
+    // rather than walked, so the transform of its tag cannot move the element again
+    for (const ancestor of state.tagNesting) {
+      ancestor.value++;
+    }
+    state.tagNesting.push({ key: wrapper.tagName, value: 0 });
 
-  // Tag nesting enforcement
-  for (let i = tagDepth.length - 1; i >= 0; i--) {
-    const tagName = tagDepth[i].key;
-    tagDepth[i].value++;
+    const wrapped: ElementPosition = {
+      next: null,
+      parent: wrapper,
+      previous: null,
+    };
+    walkAllowedElement(element, tagRule, wrapped, options, {
+      ...state,
+      rootNesting: state.rootNesting + 1,
+    });
 
-    const tagRule = options.tags?.[tagName];
-    if (!tagRule?.limits?.nesting) {
-      continue;
+    state.tagNesting.pop();
+    for (const ancestor of state.tagNesting) {
+      ancestor.value--;
     }
 
-    if (tagDepth[i].value > tagRule.limits.nesting) {
-      handleTagNestingError(
-        element,
-        tagRule.limits.nesting,
-        options.errorHandling?.tagNesting,
+    // The wrapper is filtered like any element, once the wrapped element is sanitized
+    const wrapperRule = getTagRule(options, wrapper.tagName);
+    if (wrapperRule) {
+      filterElement(
+        wrapper,
+        wrapperRule,
+        options,
+        resolveErrorHandling(options.errorHandling, wrapperRule.errorHandling),
       );
+    }
+    return;
+  }
+
+  walkAllowedElement(element, tagRule, position, options, state);
+}
+
+/**
+ * Processes a text node according to the text options.
+ *
+ * Strips control and bidi override characters when enabled, applies the transform with the
+ * tag name of the parent element, then enforces the maximum total length of the text,
+ * shared by the whole walk through `state.text`. Text nodes left empty are removed.
+ *
+ * @param text - The text node to process
+ * @param parent - The parent of the text node
+ * @param textOptions - The text options to apply
+ * @param options - Sanitization configuration options
+ * @param state - Current sanitization state including the length of the text kept so far
+ */
+function walkText(
+  text: Htmlparser2TreeAdapterMap["textNode"],
+  parent: Htmlparser2TreeAdapterMap["parentNode"],
+  textOptions: TextOptions,
+  options: SanitizerOptions,
+  state: SanitizerState,
+) {
+  const { maxLength, stripBidiOverrides, stripControlCharacters, transform } =
+    textOptions;
+
+  let data = text.data;
+
+  if (stripControlCharacters) {
+    data = data.replaceAll(controlCharacters, "");
+  }
+
+  if (stripBidiOverrides) {
+    data = data.replaceAll(bidiOverrides, "");
+  }
+
+  if (transform) {
+    data = transform(data, "tagName" in parent ? parent.tagName : undefined);
+  }
+
+  if (!data) {
+    adapter.detachNode(text);
+    return;
+  }
+
+  text.data = data;
+
+  if (maxLength && state.text.length + data.length > maxLength) {
+    if (
+      !handleTextTooLongError(
+        text,
+        parent,
+        maxLength - state.text.length,
+        maxLength,
+        options.errorHandling?.textTooLong,
+      )
+    ) {
       return;
     }
   }
 
-  const newState: SanitizerState = {
+  state.text.length += text.data.length;
+}
+
+/**
+ * Walks the nodes that took the place of an element before they were sanitized.
+ *
+ * The walk of the parent resumes after the element, so the children it moved into the
+ * parent when unwrapped, and the text of its escaped tags, are walked here at the depth
+ * of the element they replaced. Does nothing when the element was discarded along with
+ * its children.
+ *
+ * @param element - The element that was unwrapped, escaped or discarded
+ * @param position - The position of the element before it was sanitized
+ * @param options - Sanitization configuration options
+ * @param state - Sanitization state of the element
+ */
+function walkUnwrappedChildren(
+  element: Htmlparser2TreeAdapterMap["element"],
+  { next, parent, previous }: ElementPosition,
+  options: SanitizerOptions,
+  state: SanitizerState,
+) {
+  if (!parent) {
+    return;
+  }
+
+  const parentState: SanitizerState = {
     ...state,
-    tagNesting: [...tagDepth, { key: tagName, value: 0 }],
+    rootNesting: state.rootNesting - 1,
   };
 
-  // Children sanitization
-  let child = element.firstChild;
-  while (child) {
-    const next = child.nextSibling;
-    walkNode(child, options, newState);
-    child = next;
+  let child = previous ? previous.nextSibling : parent.firstChild;
+  while (child && child !== next) {
+    const following: Htmlparser2TreeAdapterMap["childNode"] | null =
+      child.nextSibling;
+    if (child !== element) {
+      walkNode(child, options, parentState);
+    }
+    child = following;
   }
 }
@@ -89,6 +89,101 @@ export type TagAttributeSimpleValueComparator = ReadonlyDeep<{
   value: TagAttributeValueComparator;
 }>;
 
+/**
+ * A comparator for tag attribute values holding a list of image candidates, like `srcset`.
+ *
+ * Each comma-separated candidate is a URL optionally followed by a width (`480w`) or pixel
+ * density (`2x`) descriptor. URLs are checked like {@link TagAttributeUrlValueComparator} does,
+ * and descriptors must be valid and of an allowed kind. With the `"urls"` format, the value is
+ * instead a whitespace-separated list of URLs without descriptors, like `ping`.
+ *
+ * @example
+ * ```typescript
+ * const comparator: TagAttributeSrcsetValueComparator = {
+ *   mode: "srcset",
+ *   protocols: ["https"],
+ *   hosts: ["images.example.com"],
+ *   descriptors: ["width"]
+ * };
+ * ```
+ */
+export type TagAttributeSrcsetValueComparator = ReadonlyDeep<
+  {
+    /** Allowed descriptor kinds, candidates without a descriptor are always allowed (optional, defaults to both) */
+    descriptors?: ("density" | "width")[];
+    /** Whether the value lists comma-separated image candidates or whitespace-separated URLs (optional, defaults to "candidates") */
+    format?: "candidates" | "urls";
+    /** Always "srcset" to indicate this comparator handles image candidate lists */
+    mode: "srcset";
+  } & Omit<TagAttributeUrlValueComparator, "mode">
+>;
+
+/**
+ * A comparator for tag attribute values holding inline CSS declarations.
+ *
+ * Used for the `style` attribute, where each declaration is validated against the comparator
+ * of its property and only the allowed declarations are kept.
+ *
+ * @example
+ * ```typescript
+ * const comparator: TagAttributeStyleValueComparator = {
+ *   mode: "style",
+ *   allowImportant: false,
+ *   properties: {
+ *     "color": /^#[0-9a-f]{3,6}$/i,
+ *     "text-align": ["left", "center", "right"]
+ *   }
+ * };
+ * ```
+ */
+export type TagAttributeStyleValueComparator = ReadonlyDeep<{
+  /** Whether declarations flagged with `!important` are allowed (optional, defaults to false) */
+  allowImportant?: boolean;
+  /** Always "style" to indicate this comparator handles inline CSS declarations */
+  mode: "style";
+  /** Mapping of lowercase property names to their respective value comparators */
+  properties: Record<string, TagAttributeValueComparator>;
+}>;
+
+/**
+ * A comparator for tag attribute values that hold a URL.
+ *
+ * Used for attributes like `href` or `src`, validating the value against allowed protocols and hosts
+ * instead of a hand-written regular expression. Values are parsed like browsers do once control
+ * characters are removed, so obfuscated schemes such as `java\tscript:` are caught.
+ *
+ * Only `http` and `https` URLs are allowed unless other protocols are listed, so scripting
+ * schemes such as `javascript:` are never allowed by default. URLs without a host, such as
+ * `mailto:` links, are only checked against the protocols. Protocol-relative URLs (`//host/path`)
+ * inherit the protocol of the page, so they are allowed when `http` or `https` is.
+ *
+ * @example
+ * ```typescript
+ * const comparator: TagAttributeUrlValueComparator = {
+ *   mode: "url",
+ *   protocols: ["http", "https"],
+ *   hosts: ["example.com", "192.168.0.1"],
+ *   ports: [8080],
+ *   paths: ["/docs"],
+ *   allowRelative: true
+ * };
+ * ```
+ */
+export type TagAttributeUrlValueComparator = ReadonlyDeep<{
+  /** Whether relative URLs (e.g. `/path`, `page.html`, `?query` or `#fragment`) are allowed (optional, defaults to false) */
+  allowRelative?: boolean;
+  /** Allowed hosts of URLs with a host, as domains, IPv4 or IPv6 addresses; any host when empty or omitted (optional) */
+  hosts?: string[];
+  /** Always "url" to indicate this comparator handles URL values */
+  mode: "url";
+  /** Allowed path prefixes of URLs with a host, matched on whole segments; any path when empty or omitted (optional) */
+  paths?: string[];
+  /** Allowed explicit ports, the default port of the protocol is always allowed; any port when empty or omitted (optional) */
+  ports?: number[];
+  /** Allowed protocols without the trailing colon (optional, defaults to `http` and `https` when empty or omitted) */
+  protocols?: string[];
+}>;
+
 /**
  * A comparator for validating individual tag attribute values.
  *
@@ -131,5 +226,14 @@ export type TagAttributeValueComparator = ReadonlyDeep<
  * - `"record"`: For key-value pair collections (e.g., `data-id:123;data-class:btn`)
  * - `"set"`: For delimiter-separated value collections (e.g., `class1 class2 class3`)
  * - `"simple"`: For single values without collections
+ * - `"srcset"`: For image candidate and URL lists (e.g., `small.png 480w, large.png 1080w`)
+ * - `"style"`: For inline CSS declarations (e.g., `color: red; text-align: center`)
+ * - `"url"`: For URL values checked against allowed protocols and hosts
  */
-export type TagAttributeValueComparatorMode = "record" | "set" | "simple";
+export type TagAttributeValueComparatorMode =
+  | "record"
+  | "set"
+  | "simple"
+  | "srcset"
+  | "style"
+  | "url";
@@ -1,3 +1,18 @@
+/**
+ * Error handling mode for embedded content sources outside the embed policy of their tag.
+ *
+ * - Falls back to {@link TagAttributeErrorHandlingMode} for all errors
+ */
+export type EmbedSourceErrorHandlingMode = TagAttributeErrorHandlingMode;
+
+/**
+ * Error handling mode for scripts outside the script policy of their tag.
+ *
+ * - `discardElement`: Remove the script element
+ * - `throwError`: Throw an error and stop processing
+ */
+export type ScriptSourceErrorHandlingMode = "discardElement" | "throwError";
+
 /**
  * Error handling mode for when a tag attribute collection has too many values.
  *
@@ -54,6 +69,34 @@ export type TagAttributeSetValueErrorHandlingMode =
   | "dropValue"
   | TagAttributeValueErrorHandlingMode;
 
+/**
+ * Error handling mode for tag attribute srcset candidate errors.
+ *
+ * - `dropCandidate`: Remove the offending image candidate from the attribute
+ * - Falls back to {@link TagAttributeValueErrorHandlingMode} for other errors
+ */
+export type TagAttributeSrcsetValueErrorHandlingMode =
+  | "dropCandidate"
+  | TagAttributeValueErrorHandlingMode;
+
+/**
+ * Error handling mode for tag attribute style value errors.
+ *
+ * - `dropDeclaration`: Remove the offending declaration from the style attribute
+ * - Falls back to {@link TagAttributeValueErrorHandlingMode} for other errors
+ */
+export type TagAttributeStyleValueErrorHandlingMode =
+  | "dropDeclaration"
+  | TagAttributeValueErrorHandlingMode;
+
+/**
+ * Error handling mode for tag attribute URL value errors.
+ *
+ * - Falls back to {@link TagAttributeValueErrorHandlingMode} for all errors
+ */
+export type TagAttributeUrlValueErrorHandlingMode =
+  TagAttributeValueErrorHandlingMode;
+
 /**
  * Error handling mode for tag attribute value errors.
  *
@@ -88,15 +131,35 @@ export type TagChildrenErrorHandlingMode =
   | "discardLasts"
   | "throwError";
 
+/**
+ * Error handling mode for elements violating the content model of their tag or ancestors.
+ *
+ * - `discardElement`: Remove the element along with its children
+ * - `throwError`: Throw an error and stop processing
+ * - `unwrapElement`: Remove the tag but keep its children
+ * - `wrapInRequiredParent`: Wrap an element outside its allowed parents in the first of them
+ *   that is allowed at its position, and unwrap the element when there is none or the
+ *   violation is not about its parent
+ */
+export type TagContentErrorHandlingMode =
+  | "discardElement"
+  | "throwError"
+  | "unwrapElement"
+  | "wrapInRequiredParent";
+
 /**
  * General error handling mode for tag-related errors.
  *
  * - `discardElement`: Remove the entire element from the output
+ * - `escapeElement`: Replace the tag with its source as text but keep its sanitized children
+ * - `recursiveEscapeElement`: Replace the element and its children with their source as text
  * - `throwError`: Throw an error and stop processing
  * - `unwrapElement`: Remove the tag but keep its children
  */
 export type TagErrorHandlingMode =
   | "discardElement"
+  | "escapeElement"
+  | "recursiveEscapeElement"
   | "throwError"
   | "unwrapElement";
 
@@ -107,3 +170,11 @@ export type TagErrorHandlingMode =
  * - `throwError`: Throw an error and stop processing
  */
 export type TagNestingErrorHandlingMode = "discardElement" | "throwError";
+
+/**
+ * Error handling mode for text exceeding the maximum total length.
+ *
+ * - `trimExcess`: Cut the text at the limit and drop any text after it
+ * - `throwError`: Throw an error and stop processing
+ */
+export type TextTooLongErrorHandlingMode = "throwError" | "trimExcess";
@@ -0,0 +1,51 @@
+/**
+ * Machine-readable codes identifying why sanitization was aborted.
+ *
+ * Each code corresponds to one kind of rule, so callers can branch on it
+ * or localize the message instead of parsing the English text.
+ *
+ * @example
+ * ```typescript
+ * const code: SanitizationErrorCode = "ATTRIBUTE_VALUE_TOO_LONG";
+ * ```
+ */
+export type SanitizationErrorCode =
+  | "ATTRIBUTE_NOT_ALLOWED"
+  | "ATTRIBUTE_RECORD_DUPLICATE_KEY"
+  | "ATTRIBUTE_RECORD_PAIR_NOT_ALLOWED"
+  | "ATTRIBUTE_SET_VALUE_NOT_ALLOWED"
+  | "ATTRIBUTE_SRCSET_CANDIDATE_NOT_ALLOWED"
+  | "ATTRIBUTE_STYLE_DECLARATION_NOT_ALLOWED"
+  | "ATTRIBUTE_URL_NOT_ALLOWED"
+  | "ATTRIBUTE_VALUE_NOT_ALLOWED"
+  | "ATTRIBUTE_VALUE_TOO_LONG"
+  | "ATTRIBUTE_VALUE_TOO_MANY_ENTRIES"
+  | "CHILDREN_EXCEEDED"
+  | "EMBED_SOURCE_NOT_ALLOWED"
+  | "NESTING_EXCEEDED"
+  | "SCRIPT_SOURCE_NOT_ALLOWED"
+  | "TAG_CONTENT_NOT_ALLOWED"
+  | "TAG_FILTERED"
+  | "TAG_NOT_ALLOWED"
+  | "TEXT_TOO_LONG";
+
+/**
+ * Position in the source HTML where the offending element starts.
+ *
+ * @example
+ * ```typescript
+ * const location: SanitizationErrorLocation = {
+ *   column: 6,
+ *   line: 1,
+ *   offset: 5
+ * };
+ * ```
+ */
+export type SanitizationErrorLocation = {
+  /** One-based column of the first character */
+  column: number;
+  /** One-based line of the first character */
+  line: number;
+  /** Zero-based index of the first character */
+  offset: number;
+};
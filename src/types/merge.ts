@@ -0,0 +1,124 @@
+import type { ReadonlyDeep } from "type-fest";
+
+import type { TagAttributeValueComparator } from "./comparators";
+import type {
+  TagAttributeRecordValueRule,
+  TagAttributeSetValueRule,
+  TagAttributeSimpleValueRule,
+  TagAttributeSrcsetValueRule,
+  TagAttributeStyleValueRule,
+  TagAttributeUrlValueRule,
+} from "./rules";
+import type { SanitizerOptions } from "./sanitizer";
+import type { TagAttributeKey, TagKey, TagRule } from "./tag";
+
+/**
+ * Overrides applied on top of existing sanitizer options.
+ *
+ * Behaves like partial {@link SanitizerOptions}, where `tags` accepts {@link TagRulesOverride}
+ * and `globalAttributes` accepts {@link TagAttributeValueRuleOverride} entries, so tags and
+ * attributes can be removed by setting them to `null`.
+ *
+ * @example
+ * ```typescript
+ * const override: SanitizerOptionsOverride = {
+ *   errorHandling: { attribute: "throwError" },
+ *   tags: {
+ *     "a": { attributes: { "target": null } },
+ *     "iframe": null
+ *   },
+ *   topLevelLimits: { children: 50 }
+ * };
+ * ```
+ */
+export type SanitizerOptionsOverride = ReadonlyDeep<
+  {
+    /** Global attribute rules to add or merge, or `null` to remove them (optional) */
+    globalAttributes?: Record<
+      TagAttributeKey,
+      null | TagAttributeValueRuleOverride
+    >;
+    /** Tag rules to add, merge or remove (optional) */
+    tags?: Record<TagKey, null | TagRuleOverride>;
+  } & Omit<SanitizerOptions, "globalAttributes" | "tags">
+>;
+
+/**
+ * Overrides applied on top of an existing attribute value rule.
+ *
+ * The `mode` is always required. When it matches the mode of the base rule, the override is
+ * merged into it: record `values` and style `properties` are merged per key, where `null`
+ * removes a key, and every other field is replaced (including set `values` arrays, which are
+ * never extended). When the mode differs or there is no base rule, the override replaces it
+ * and must be a complete rule, merging throws otherwise.
+ *
+ * @example
+ * ```typescript
+ * const override: TagAttributeValueRuleOverride = {
+ *   mode: "record",
+ *   values: {
+ *     "color": /^#[0-9a-f]{6}$/i, // Add or replace the color comparator
+ *     "position": null // Remove the position comparator
+ *   }
+ * };
+ * ```
+ */
+export type TagAttributeValueRuleOverride =
+  | ({
+      /** Comparators to add or replace, or `null` to remove them (optional) */
+      properties?: Record<string, null | TagAttributeValueComparator>;
+    } & Partial<Omit<TagAttributeStyleValueRule, "mode" | "properties">> &
+      Pick<TagAttributeStyleValueRule, "mode">)
+  | ({
+      /** Comparators to add or replace, or `null` to remove them (optional) */
+      values?: Record<string, null | TagAttributeValueComparator>;
+    } & Partial<Omit<TagAttributeRecordValueRule, "mode" | "values">> &
+      Pick<TagAttributeRecordValueRule, "mode">)
+  | (Partial<Omit<TagAttributeSetValueRule, "mode">> &
+      Pick<TagAttributeSetValueRule, "mode">)
+  | (Partial<Omit<TagAttributeSimpleValueRule, "mode">> &
+      Pick<TagAttributeSimpleValueRule, "mode">)
+  | (Partial<Omit<TagAttributeSrcsetValueRule, "mode">> &
+      Pick<TagAttributeSrcsetValueRule, "mode">)
+  | (Partial<Omit<TagAttributeUrlValueRule, "mode">> &
+      Pick<TagAttributeUrlValueRule, "mode">);
+
+/**
+ * Overrides applied on top of an existing tag rule.
+ *
+ * Behaves like a partial {@link TagRule}, where attribute rules are merged with
+ * {@link TagAttributeValueRuleOverride} semantics and setting an attribute to `null`
+ * removes its rule from the base.
+ *
+ * @example
+ * ```typescript
+ * const override: TagRuleOverride = {
+ *   attributes: {
+ *     "target": null, // Remove the target rule
+ *     "rel": { mode: "simple", value: "noopener" }
+ *   },
+ *   limits: { nesting: 2 }
+ * };
+ * ```
+ */
+export type TagRuleOverride = {
+  /** Attribute rules to add or merge, or `null` to remove them (optional) */
+  attributes?: Record<TagAttributeKey, null | TagAttributeValueRuleOverride>;
+} & Omit<TagRule, "attributes">;
+
+/**
+ * Overrides applied on top of a map of tag rules, such as a preset.
+ *
+ * Each tag maps to the overrides for its rule, or `null` to remove the tag altogether.
+ *
+ * @example
+ * ```typescript
+ * const overrides: TagRulesOverride = {
+ *   "img": { attributes: { "src": { mode: "url", protocols: ["https"] } } },
+ *   "table": null // Disallow tables
+ * };
+ * ```
+ */
+export type TagRulesOverride = ReadonlyDeep<
+  Record<TagKey, null | TagRuleOverride>
+>;
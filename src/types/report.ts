@@ -0,0 +1,107 @@
+import type { ErrorHandling } from "./sanitizer";
+
+/**
+ * An action taken by the sanitizer to resolve a violation.
+ *
+ * Matches the error handling modes that let processing continue, which excludes `throwError`.
+ *
+ * @example
+ * ```typescript
+ * const action: SanitizationAction = "discardAttribute";
+ * ```
+ */
+export type SanitizationAction = Exclude<
+  NonNullable<ErrorHandling[keyof ErrorHandling]>,
+  "throwError"
+>;
+
+/**
+ * The result of a sanitization run with reporting enabled.
+ *
+ * @example
+ * ```typescript
+ * const report: SanitizationReport = {
+ *   html: "<a>Link</a>",
+ *   violations: [
+ *     {
+ *       action: "discardAttribute",
+ *       attribute: "href",
+ *       kind: "attributeUrlValue",
+ *       message: "URL javascript:alert(1) for attribute href is not allowed",
+ *       path: "/a[0]",
+ *       tag: "a",
+ *       value: "javascript:alert(1)"
+ *     }
+ *   ]
+ * };
+ * ```
+ */
+export type SanitizationReport = {
+  /** The sanitized HTML string */
+  html: string;
+  /** Every violation that was acted on, in document order */
+  violations: SanitizationViolation[];
+};
+
+/**
+ * A violation of the sanitization rules along with the action taken to resolve it.
+ *
+ * @example
+ * ```typescript
+ * const violation: SanitizationViolation = {
+ *   action: "dropValue",
+ *   attribute: "class",
+ *   kind: "attributeSetValue",
+ *   message: "Value btn-danger for attribute class is not allowed",
+ *   path: "/div[0]/span[1]",
+ *   tag: "span",
+ *   value: "btn-danger"
+ * };
+ * ```
+ */
+export type SanitizationViolation = {
+  /** The action taken to resolve the violation */
+  action: SanitizationAction;
+  /** The attribute involved in the violation (optional) */
+  attribute?: string;
+  /** The kind of rule that was violated, matching the key in {@link ErrorHandling} */
+  kind: SanitizationViolationKind;
+  /** The limit that was exceeded, such as a maximum length or entry count (optional) */
+  limit?: number;
+  /** A human readable description of the violation */
+  message: string;
+  /** Path of the offending node from the root, as `/tag[index]` segments (`/` for the root) */
+  path: string;
+  /** The tag name of the offending element, absent for the root (optional) */
+  tag?: string;
+  /** The offending value, such as the attribute value or a single set token (optional) */
+  value?: string;
+};
+
+/**
+ * Describes a violation as it is escalated through the handler chain.
+ *
+ * The most specific handler creates the context, and every handler it falls back to
+ * passes it along so the final action is reported against the original violation.
+ *
+ * @example
+ * ```typescript
+ * const context: SanitizationViolationContext = {
+ *   attribute: "class",
+ *   kind: "attributeSetValue",
+ *   message: "Value btn-danger for attribute class is not allowed",
+ *   value: "btn-danger"
+ * };
+ * ```
+ */
+export type SanitizationViolationContext = Omit<
+  SanitizationViolation,
+  "action" | "path" | "tag"
+>;
+
+/**
+ * The kind of rule that was violated.
+ *
+ * Each kind corresponds to the {@link ErrorHandling} key used to resolve it.
+ */
+export type SanitizationViolationKind = keyof ErrorHandling;
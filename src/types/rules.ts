@@ -1,3 +1,4 @@
+import type { Htmlparser2TreeAdapterMap } from "parse5-htmlparser2-tree-adapter";
 import type { Simplify } from "type-fest";
 
 import type {
@@ -5,8 +6,12 @@ import type {
   TagAttributeRecordValueComparator,
   TagAttributeSetValueComparator,
   TagAttributeSimpleValueComparator,
+  TagAttributeSrcsetValueComparator,
+  TagAttributeStyleValueComparator,
+  TagAttributeUrlValueComparator,
   TagAttributeValueComparatorMode,
 } from "./comparators";
+import type { ErrorHandling } from "./sanitizer";
 
 /**
  * A rule for validating tag attribute collection values that combines comparator logic with rule constraints.
@@ -99,11 +104,128 @@ export type TagAttributeSetValueRule = TagAttributeSetValueComparator &
 export type TagAttributeSimpleValueRule = TagAttributeSimpleValueComparator &
   TagAttributeValueRuleBase;
 
+/**
+ * A rule for validating tag attribute values holding a list of image candidates.
+ *
+ * Combines {@link TagAttributeSrcsetValueComparator} validation with additional rule constraints
+ * for handling the `srcset` attribute of `img` and `source` elements, or URL lists like the
+ * `ping` attribute of `a` elements.
+ *
+ * The URL of each allowed candidate is then rewritten by the `transforms`, like those of
+ * {@link TagAttributeUrlValueRule}.
+ *
+ * @example
+ * ```typescript
+ * const rule: TagAttributeSrcsetValueRule = {
+ *   mode: "srcset",
+ *   protocols: ["https"],
+ *   allowRelative: true,
+ *   maxLength: 2000,
+ *   transforms: [urlTransforms.proxy("https://images.example.com/?url=")]
+ * };
+ *
+ * const ping: TagAttributeSrcsetValueRule = {
+ *   mode: "srcset",
+ *   format: "urls",
+ *   protocols: ["https"],
+ *   hosts: ["stats.example.com"]
+ * };
+ * ```
+ */
+export type TagAttributeSrcsetValueRule = {
+  /** Rewrites the URL of allowed candidates, in order (optional) */
+  transforms?: TagAttributeUrlTransform[];
+} & TagAttributeSrcsetValueComparator &
+  TagAttributeValueRuleBase;
+
+/**
+ * A rule for validating tag attribute values holding inline CSS declarations.
+ *
+ * Combines {@link TagAttributeStyleValueComparator} validation with additional rule constraints
+ * for handling the `style` attribute.
+ *
+ * @example
+ * ```typescript
+ * const rule: TagAttributeStyleValueRule = {
+ *   mode: "style",
+ *   properties: {
+ *     "color": /^#[0-9a-f]{6}$/i,
+ *     "font-weight": ["normal", "bold"]
+ *   },
+ *   maxLength: 500
+ * };
+ * ```
+ */
+export type TagAttributeStyleValueRule = TagAttributeStyleValueComparator &
+  TagAttributeValueRuleBase;
+
+/**
+ * Rewrites an allowed URL attribute value.
+ *
+ * Receives the current value and returns the new one. The element is passed along, so
+ * transforms can set sibling attributes, such as `rel` on external links.
+ *
+ * @example
+ * ```typescript
+ * // Point every link to the archived copy of the page
+ * const archive: TagAttributeUrlTransform = (url) =>
+ *   `https://web.archive.org/web/${url}`;
+ * ```
+ */
+export type TagAttributeUrlTransform = (
+  value: string,
+  context: TagAttributeUrlTransformContext,
+) => string;
+
+/**
+ * Describes the attribute being rewritten by a {@link TagAttributeUrlTransform}.
+ *
+ * @example
+ * ```typescript
+ * const context: TagAttributeUrlTransformContext = { attribute: "href", element };
+ * ```
+ */
+export type TagAttributeUrlTransformContext = {
+  /** The name of the attribute holding the URL */
+  attribute: string;
+  /** The element holding the attribute, free to mutate */
+  element: Htmlparser2TreeAdapterMap["element"];
+};
+
+/**
+ * A rule for validating tag attribute values that hold a URL.
+ *
+ * Combines {@link TagAttributeUrlValueComparator} validation with additional rule constraints
+ * for handling URL attributes like `href` and `src`.
+ *
+ * Allowed URLs are then rewritten by the `transforms`, in order, once every attribute of the
+ * element is sanitized. Their results are trusted and not validated again.
+ *
+ * @example
+ * ```typescript
+ * const rule: TagAttributeUrlValueRule = {
+ *   mode: "url",
+ *   protocols: ["https"],
+ *   hosts: ["example.com"],
+ *   allowRelative: true,
+ *   maxLength: 2000,
+ *   transforms: [urlTransforms.stripQueryParameters()]
+ * };
+ * ```
+ */
+export type TagAttributeUrlValueRule = {
+  /** Rewrites allowed URLs, in order (optional) */
+  transforms?: TagAttributeUrlTransform[];
+} & TagAttributeUrlValueComparator &
+  TagAttributeValueRuleBase;
+
 /**
  * A simplified rule for validating tag attribute values that handles both collection and simple formats.
  *
- * This is a union type that combines {@link TagAttributeCollectionValueRule} and
- * {@link TagAttributeSimpleValueRule} with shared rule constraints.
+ * This is a union type that combines {@link TagAttributeCollectionValueRule},
+ * {@link TagAttributeSimpleValueRule}, {@link TagAttributeSrcsetValueRule},
+ * {@link TagAttributeStyleValueRule} and {@link TagAttributeUrlValueRule} with shared rule
+ * constraints.
  *
  * @example
  * ```typescript
@@ -127,7 +249,11 @@ export type TagAttributeSimpleValueRule = TagAttributeSimpleValueComparator &
  * ```
  */
 export type TagAttributeValueRule = Simplify<
-  TagAttributeCollectionValueRule | TagAttributeSimpleValueRule
+  | TagAttributeCollectionValueRule
+  | TagAttributeSimpleValueRule
+  | TagAttributeSrcsetValueRule
+  | TagAttributeStyleValueRule
+  | TagAttributeUrlValueRule
 > &
   TagAttributeValueRuleBase;
 
@@ -135,13 +261,14 @@ export type TagAttributeValueRule = Simplify<
  * Base properties shared by all tag attribute value rules.
  *
  * Provides common validation constraints and configuration options that can be applied
- * to any attribute value rule regardless of its format (simple, set, or record).
+ * to any attribute value rule regardless of its format (simple, set, record, srcset, style, or url).
  *
  * @example
  * ```typescript
  * const baseRule: TagAttributeValueRuleBase = {
  *   mode: "simple",
  *   defaultValue: "fallback-value",
+ *   errorHandling: { attributeValue: "applyDefaultValue" },
  *   maxLength: 100,
  *   required: false
  * };
@@ -150,6 +277,8 @@ export type TagAttributeValueRule = Simplify<
 export type TagAttributeValueRuleBase = {
   /** Default value to use when the attribute is missing or invalid (optional) */
   defaultValue?: string;
+  /** Error handling for this attribute, overriding the tag and global ones per key (optional) */
+  errorHandling?: ErrorHandling;
   /** Maximum allowed length for the attribute value (optional) */
   maxLength?: number;
   /** The validation mode determining how the attribute value should be processed */
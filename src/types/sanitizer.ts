@@ -1,30 +1,69 @@
 import type { ReadonlyDeep } from "type-fest";
 
 import type {
+  EmbedSourceErrorHandlingMode,
+  ScriptSourceErrorHandlingMode,
   TagAttributeCollectionValueTooManyErrorHandlingMode,
   TagAttributeErrorHandlingMode,
   TagAttributeRecordValueDuplicateErrorHandlingMode,
   TagAttributeRecordValueErrorHandlingMode,
   TagAttributeSetValueErrorHandlingMode,
+  TagAttributeSrcsetValueErrorHandlingMode,
+  TagAttributeStyleValueErrorHandlingMode,
+  TagAttributeUrlValueErrorHandlingMode,
   TagAttributeValueErrorHandlingMode,
   TagAttributeValueTooLongErrorHandlingMode,
   TagChildrenErrorHandlingMode,
+  TagContentErrorHandlingMode,
   TagErrorHandlingMode,
   TagNestingErrorHandlingMode,
+  TextTooLongErrorHandlingMode,
 } from "./error-handling";
-import type { TagKey, TagLimits, TagRule } from "./tag";
+import type { SanitizationViolation } from "./report";
+import type { TagAttributeValueRule } from "./rules";
+import type {
+  TagAttributeKey,
+  TagFilter,
+  TagKey,
+  TagLimits,
+  TagPattern,
+  TagRule,
+} from "./tag";
+
+/**
+ * An element sanitized fragments are meant to be injected into.
+ *
+ * Markup is parsed differently depending on its container, for instance table rows are only
+ * kept inside a table, so fragments are parsed as the content of this element.
+ *
+ * @example
+ * ```typescript
+ * const contextElement: ContextElement = {
+ *   attributes: { class: "data" },
+ *   tagName: "table"
+ * };
+ * ```
+ */
+export type ContextElement = {
+  /** The attributes of the element (optional) */
+  attributes?: Record<string, string>;
+  /** The tag name of the element */
+  tagName: TagKey;
+};
 
 /**
  * Configuration for how different types of errors should be handled during sanitization.
  *
  * Provides fine-grained control over error handling behavior for various scenarios
- * that can occur when processing HTML tags and attributes.
+ * that can occur when processing HTML tags and attributes. Tag and attribute rules can
+ * override it per key, the attribute rule taking precedence over the tag rule.
  *
  * @example
  * ```typescript
  * const errorHandling: ErrorHandling = {
  *   tag: "discardElement",
  *   tagChildren: "discardFirsts",
+ *   tagFilter: "unwrapElement",
  *   tagNesting: "throwError",
  *   attribute: "discardAttribute",
  *   attributeValue: "applyDefaultValue",
@@ -32,7 +71,13 @@ import type { TagKey, TagLimits, TagRule } from "./tag";
  *   attributeCollectionValueTooMany: "dropExtra",
  *   attributeRecordValueDuplicate: "keepFirst",
  *   attributeSetValue: "dropValue",
- *   attributeRecordValue: "dropPair"
+ *   attributeSrcsetValue: "dropCandidate",
+ *   attributeRecordValue: "dropPair",
+ *   attributeStyleValue: "dropDeclaration",
+ *   attributeUrlValue: "discardAttribute",
+ *   embedSource: "discardElement",
+ *   scriptSource: "discardElement",
+ *   textTooLong: "trimExcess"
  * };
  * ```
  */
@@ -47,18 +92,45 @@ export type ErrorHandling = {
   attributeRecordValueDuplicate?: TagAttributeRecordValueDuplicateErrorHandlingMode;
   /** How to handle errors in attribute set values */
   attributeSetValue?: TagAttributeSetValueErrorHandlingMode;
+  /** How to handle invalid image candidates in attribute srcset values */
+  attributeSrcsetValue?: TagAttributeSrcsetValueErrorHandlingMode;
+  /** How to handle errors in attribute style declarations */
+  attributeStyleValue?: TagAttributeStyleValueErrorHandlingMode;
+  /** How to handle errors in attribute URL values */
+  attributeUrlValue?: TagAttributeUrlValueErrorHandlingMode;
   /** How to handle general attribute value errors */
   attributeValue?: TagAttributeValueErrorHandlingMode;
   /** How to handle when attribute values are too long */
   attributeValueTooLong?: TagAttributeValueTooLongErrorHandlingMode;
+  /** How to handle embedded content sources outside the embed policy of their tag */
+  embedSource?: EmbedSourceErrorHandlingMode;
+  /** How to handle scripts outside the script policy of their tag */
+  scriptSource?: ScriptSourceErrorHandlingMode;
   /** How to handle general tag errors */
   tag?: TagErrorHandlingMode;
   /** How to handle errors with tag children */
   tagChildren?: TagChildrenErrorHandlingMode;
+  /** How to handle elements violating allowed parents, allowed children or forbidden descendants */
+  tagContent?: TagContentErrorHandlingMode;
+  /** How to handle elements rejected by a filter */
+  tagFilter?: TagErrorHandlingMode;
   /** How to handle tag nesting errors */
   tagNesting?: TagNestingErrorHandlingMode;
+  /** How to handle text exceeding the maximum total length */
+  textTooLong?: TextTooLongErrorHandlingMode;
 };
 
+/**
+ * A reusable sanitizer created from compiled options.
+ *
+ * @example
+ * ```typescript
+ * const sanitize: Sanitizer = createSanitizer(options);
+ * console.log(sanitize("<p>Hello<script>alert(1)</script></p>")); // "<p>Hello</p>"
+ * ```
+ */
+export type Sanitizer = (html: string) => string;
+
 /**
  * Configuration options for the HTML sanitizer.
  *
@@ -95,12 +167,30 @@ export type ErrorHandling = {
  * ```
  */
 export type SanitizerOptions = ReadonlyDeep<{
+  /** The element the sanitized fragment is meant to be injected into, parsed as its content (optional, ignored in document mode) */
+  contextElement?: ContextElement;
+  /** Whether to discard everything before `<html>` and after `</html>` when the input has an `<html>` tag (default: false) */
+  enforceHtmlBoundary?: boolean;
   /** Configuration for error handling behavior during sanitization */
   errorHandling?: ErrorHandling;
+  /** Decides whether to keep each allowed element, after any tag filter (optional) */
+  filter?: TagFilter;
+  /** Attribute rules shared by every allowed tag, used when no exact, glob or pattern rule of the tag matches, before the `"*"` rule of the tag and then their own `"*"` rule (optional) */
+  globalAttributes?: Record<TagAttributeKey, TagAttributeValueRule>;
+  /** Whether to parse the input as a full document with `html`, `head` and `body` elements, or as a fragment (default: "fragment") */
+  mode?: "document" | "fragment";
+  /** Tags discarded along with their content whenever error handling would unwrap them, whatever the violation (default: noscript, script, style, textarea) */
+  nonTextTags?: TagKey[];
+  /** Callback receiving every violation that error handling acted on (optional) */
+  onViolation?: (violation: SanitizationViolation) => void;
   /** Whether to preserve HTML comments in the output (default: false) */
   preserveComments?: boolean;
-  /** Rules defining which tags and attributes are allowed */
+  /** Rules applying to tags matching a pattern, tried in order after exact and glob tag keys (optional) */
+  tagPatterns?: TagPattern[];
+  /** Rules defining which tags and attributes are allowed, keyed by exact name, glob or "*" */
   tags?: Record<TagKey, TagRule>;
+  /** Filtering and transformation of text content (optional) */
+  text?: TextOptions;
   /** Limits applied to the top-level document structure */
   topLevelLimits?: TagLimits;
 }>;
@@ -119,7 +209,8 @@ export type SanitizerOptions = ReadonlyDeep<{
  *     { key: "div", value: 1 },
  *     { key: "span", value: 1 },
  *     { key: "p", value: 0 }
- *   ]
+ *   ],
+ *   text: { length: 42 }
  * };
  * ```
  */
@@ -133,4 +224,38 @@ export type SanitizerState = {
     /** Current nesting depth for this specific tag */
     value: number;
   }[];
+  /** Text kept so far, shared by the whole walk */
+  text: {
+    /** Total length of the text kept so far */
+    length: number;
+  };
+};
+
+/**
+ * Options for filtering and transforming text content.
+ *
+ * Text nodes are processed in document order: control and bidi override characters are
+ * stripped first, then the transform is applied, and finally the maximum total length is
+ * enforced according to {@link ErrorHandling.textTooLong}. Text left empty is removed.
+ * Disallowed tags turned into text by the escape error handling modes are processed too.
+ *
+ * @example
+ * ```typescript
+ * const text: TextOptions = {
+ *   maxLength: 5000,
+ *   stripBidiOverrides: true,
+ *   stripControlCharacters: true,
+ *   transform: (text, tagName) => (tagName === "code" ? text : text.replaceAll("--", "\u2014"))
+ * };
+ * ```
+ */
+export type TextOptions = {
+  /** Maximum total length of the text in the output (optional) */
+  maxLength?: number;
+  /** Whether to remove bidi embedding, override and isolate characters (default: false) */
+  stripBidiOverrides?: boolean;
+  /** Whether to remove control characters other than tabs, line feeds and carriage returns (default: false) */
+  stripControlCharacters?: boolean;
+  /** Transforms the content of each text node, given the tag name of its parent element (optional) */
+  transform?: (text: string, tagName: TagKey | undefined) => string;
 };
@@ -1,4 +1,7 @@
+import type { Htmlparser2TreeAdapterMap } from "parse5-htmlparser2-tree-adapter";
+
 import type { TagAttributeValueRule } from "./rules";
+import type { ErrorHandling } from "./sanitizer";
 
 /**
  * All valid HTML tag names as defined by the HTML specification.
@@ -173,16 +176,51 @@ export type TagAttribute = {
  * A tag attribute key that can be either a specific attribute name or a wildcard.
  *
  * The wildcard "*" allows matching any attribute name, useful for defining
- * rules that apply to all attributes or for catch-all patterns.
+ * rules that apply to all attributes or for catch-all patterns. Keys can also be
+ * globs where `*` matches any sequence of characters and `?` a single one.
  *
  * @example
  * ```typescript
  * const specificKey: TagAttributeKey = "class";
+ * const prefixKey: TagAttributeKey = "data-*"; // Matches data-id, data-role...
  * const wildcardKey: TagAttributeKey = "*"; // Matches any attribute
  * ```
  */
 export type TagAttributeKey = "*" | string;
 
+/**
+ * An attribute rule applying to every attribute name matching a regular expression.
+ *
+ * @example
+ * ```typescript
+ * const pattern: TagAttributePattern = {
+ *   pattern: /^aria-[a-z]+$/,
+ *   rule: { mode: "simple", value: "*", maxLength: 200 }
+ * };
+ * ```
+ */
+export type TagAttributePattern = {
+  /** The pattern attribute names are tested against */
+  pattern: RegExp;
+  /** The rule applied to matching attributes */
+  rule: TagAttributeValueRule;
+};
+
+/**
+ * A single image candidate within an attribute value srcset.
+ *
+ * Holds the URL and its descriptors, empty when the candidate has none.
+ *
+ * @example
+ * ```typescript
+ * const candidate: TagAttributeValueCandidate = {
+ *   descriptors: "2x",
+ *   url: "image@2x.png"
+ * };
+ * ```
+ */
+export type TagAttributeValueCandidate = { descriptors: string; url: string };
+
 /**
  * A collection of attribute values that can be either a record or set format.
  *
@@ -205,6 +243,27 @@ export type TagAttributeValueCollection =
   | TagAttributeValueRecord
   | TagAttributeValueSet;
 
+/**
+ * A single CSS declaration within a style attribute value.
+ *
+ * Represents one parsed declaration, keeping track of its `!important` flag separately
+ * from the value.
+ *
+ * @example
+ * ```typescript
+ * const declaration: TagAttributeValueDeclaration = {
+ *   important: true,
+ *   key: "color",
+ *   val: "red"
+ * };
+ * ```
+ */
+export type TagAttributeValueDeclaration = {
+  important: boolean;
+  key: string;
+  val: string;
+};
+
 /**
  * A single key-value entry within an attribute value record.
  *
@@ -250,16 +309,88 @@ export type TagAttributeValueRecord = TagAttributeValueEntry[];
  */
 export type TagAttributeValueSet = string[];
 
+/**
+ * Restricts where the source of embedded content such as iframes, embeds, objects and videos
+ * can point to.
+ *
+ * Absolute sources must use `http` or `https` and match either an exact host or a domain:
+ * - `hosts` match the exact hostname, or only its subdomains when prefixed with `*.`
+ * - `domains` match the domain itself along with all of its subdomains
+ *
+ * The source is read from the `data` attribute of `object` elements and from `src` otherwise.
+ *
+ * @example
+ * ```typescript
+ * const policy: TagEmbedPolicy = {
+ *   domains: ["youtube-nocookie.com"], // youtube-nocookie.com, www.youtube-nocookie.com...
+ *   hosts: ["player.vimeo.com", "*.youtube.com"] // Not youtube.com itself
+ * };
+ * ```
+ */
+export type TagEmbedPolicy = {
+  /** Whether relative sources are allowed (optional, defaults to false) */
+  allowRelative?: boolean;
+  /** The attribute holding the source, overriding the default one of the tag (optional) */
+  attribute?: string;
+  /** Domains allowed along with their subdomains (optional) */
+  domains?: string[];
+  /** Exact hostnames allowed, or `*.` prefixed hostnames allowing their subdomains (optional) */
+  hosts?: string[];
+};
+
+/**
+ * Decides whether to keep an element once its attributes and children are sanitized.
+ *
+ * Returns `true` to keep the element, or `false` to reject it, in which case
+ * {@link ErrorHandling.tagFilter} decides whether it is discarded or unwrapped.
+ *
+ * @example
+ * ```typescript
+ * // Drop empty paragraphs
+ * const filter: TagFilter = ({ childCount, text }) => childCount > 0 || text.trim() !== "";
+ * ```
+ */
+export type TagFilter = (frame: TagFilterFrame) => boolean;
+
+/**
+ * Describes a sanitized element to a {@link TagFilter}.
+ *
+ * @example
+ * ```typescript
+ * // <a href="https://example.com">Link <b>text</b></a>
+ * const frame: TagFilterFrame = {
+ *   attributes: { href: "https://example.com" },
+ *   childCount: 1,
+ *   tagName: "a",
+ *   text: "Link text"
+ * };
+ * ```
+ */
+export type TagFilterFrame = {
+  /** The final attributes of the element */
+  attributes: Readonly<Record<string, string>>;
+  /** The number of child elements, text and comments excluded */
+  childCount: number;
+  /** The tag name of the element, after any transform */
+  tagName: TagKey;
+  /** The text content of the element and its descendants */
+  text: string;
+};
+
 /**
  * A tag key that can be either a standard HTML tag or a custom string.
  *
  * Extends {@link HtmlTag} to allow custom tag names for specialized use cases
- * or non-standard HTML elements.
+ * or non-standard HTML elements. As a key of {@link SanitizerOptions.tags}, it can also be
+ * a glob where `*` matches any sequence of characters and `?` a single one, or the
+ * wildcard `"*"` matching any tag without a more specific rule.
  *
  * @example
  * ```typescript
  * const htmlTag: TagKey = "div";
  * const customTag: TagKey = "my-custom-element";
+ * const globKey: TagKey = "x-widget-*"; // Matches x-widget-card, x-widget-list...
+ * const wildcardKey: TagKey = "*"; // Matches any tag
  * ```
  */
 export type TagKey = HtmlTag | string;
@@ -285,6 +416,24 @@ export type TagLimits = {
   nesting?: number;
 };
 
+/**
+ * A tag rule applying to every tag name matching a regular expression.
+ *
+ * @example
+ * ```typescript
+ * const pattern: TagPattern = {
+ *   pattern: /^h[1-6]$/,
+ *   rule: { attributes: { id: { mode: "simple", value: "*" } } }
+ * };
+ * ```
+ */
+export type TagPattern = {
+  /** The pattern tag names are tested against */
+  pattern: RegExp;
+  /** The rule applied to matching tags */
+  rule: TagRule;
+};
+
 /**
  * Rules defining how a specific HTML tag should be processed during sanitization.
  *
@@ -320,8 +469,83 @@ export type TagLimits = {
  * ```
  */
 export type TagRule = {
-  /** Rules for validating tag attributes (optional) */
+  /** Tags allowed as direct child elements, text excluded (optional, any tag by default) */
+  allowedChildren?: TagKey[];
+  /** Tags allowed as the direct parent, where no parent means the root (optional, any tag by default) */
+  allowedParents?: TagKey[];
+  /** Rules applying to attributes matching a pattern, tried in order after exact and glob attribute keys (optional) */
+  attributePatterns?: TagAttributePattern[];
+  /** Rules for validating tag attributes, keyed by exact name, glob or "*" (optional) */
   attributes?: Record<TagAttributeKey, TagAttributeValueRule>;
+  /** Restricts the source of embedded content to allowed hosts (optional) */
+  embed?: TagEmbedPolicy;
+  /** Error handling for this tag, overriding the global one per key (optional) */
+  errorHandling?: ErrorHandling;
+  /** Decides whether to keep the element once its children are sanitized (optional) */
+  filter?: TagFilter;
+  /** Tags not allowed anywhere inside the element (optional) */
+  forbiddenDescendants?: TagKey[];
   /** Structural limits for the tag (optional) */
   limits?: TagLimits;
+  /** Only keeps scripts loaded from allowed hosts, stripping any inline code (optional) */
+  script?: TagScriptPolicy;
+  /** Rewrites the element before its attributes are sanitized (optional) */
+  transform?: TagTransform;
+};
+
+/**
+ * Restricts scripts to external sources from allowed hosts.
+ *
+ * The `src` attribute is matched like the source of a {@link TagEmbedPolicy}, and scripts
+ * without a `src` are rejected. Inline code is always stripped from the scripts kept, since
+ * browsers ignore it anyway when a `src` is set.
+ *
+ * The required attributes must be allowed by the attribute rules of the tag, otherwise they
+ * are removed before the policy is enforced and every script is rejected.
+ *
+ * @example
+ * ```typescript
+ * const policy: TagScriptPolicy = {
+ *   hosts: ["cdn.jsdelivr.net"],
+ *   requireCrossOrigin: true,
+ *   requireIntegrity: true
+ * };
+ * ```
+ */
+export type TagScriptPolicy = {
+  /** Whether the `crossorigin` attribute must be set (optional, defaults to false) */
+  requireCrossOrigin?: boolean;
+  /** Whether the `integrity` attribute must be set (optional, defaults to false) */
+  requireIntegrity?: boolean;
+} & Omit<TagEmbedPolicy, "attribute">;
+
+/**
+ * Rewrites an allowed element before its attributes are sanitized.
+ *
+ * The element is renamed first, then the attributes are set or removed, and finally the
+ * callback is run. When the tag name changes, the element is validated against the rule of
+ * the new tag, including its attributes and limits. Transforms are not chained: the
+ * transform of the new tag's rule is not applied.
+ *
+ * @example
+ * ```typescript
+ * // Turn ordered lists into unordered lists
+ * const listTransform: TagTransform = { tagName: "ul" };
+ *
+ * // Force links to open in a new tab, dropping any referrer policy
+ * const linkTransform: TagTransform = {
+ *   attributes: { "target": "_blank", "referrerpolicy": null },
+ *   callback: (element) => {
+ *     element.attribs.rel = "noopener noreferrer";
+ *   }
+ * };
+ * ```
+ */
+export type TagTransform = {
+  /** Attributes to set, or `null` to remove them (optional) */
+  attributes?: Record<string, null | string>;
+  /** Called with the element once renamed and its attributes set, free to mutate it (optional) */
+  callback?: (element: Htmlparser2TreeAdapterMap["element"]) => void;
+  /** The tag name to rename the element to (optional) */
+  tagName?: TagKey;
 };
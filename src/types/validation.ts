@@ -0,0 +1,68 @@
+/**
+ * A problem found in sanitizer options by upfront validation.
+ *
+ * @example
+ * ```typescript
+ * const diagnostic: SanitizerOptionsDiagnostic = {
+ *   code: "INVALID_HOST",
+ *   message: "Host example..com is not a valid domain, IPv4 or IPv6 address",
+ *   path: "/tags/a/attributes/href/hosts/0",
+ *   severity: "error"
+ * };
+ * ```
+ */
+export type SanitizerOptionsDiagnostic = {
+  /** Machine-readable code identifying the problem */
+  code: SanitizerOptionsDiagnosticCode;
+  /** A human readable description of the problem */
+  message: string;
+  /** JSON pointer (RFC 6901) to the offending option, e.g. `/tags/a/attributes/href` */
+  path: string;
+  /** Whether the options are broken (`error`) or likely not doing what was intended (`warning`) */
+  severity: SanitizerOptionsDiagnosticSeverity;
+};
+
+/**
+ * Machine-readable codes identifying problems in sanitizer options.
+ *
+ * - `CONFLICTING_SEPARATORS`: A record rule uses the same entry and key-value separator
+ * - `DEFAULT_VALUE_TOO_LONG`: A default value exceeds the `maxLength` of its own rule
+ * - `EMPTY_SEPARATOR`: A record or set rule has an empty separator or delimiter
+ * - `INVALID_HOST`: A URL rule lists a host that is not a domain, IPv4 or IPv6 address
+ * - `INVALID_LIMIT`: A length, entry, children or nesting limit is not a positive integer
+ * - `INVALID_PORT`: A URL rule lists a port that is not an integer between 0 and 65535
+ * - `INVALID_PROTOCOL`: A URL rule lists a malformed protocol
+ * - `REQUIRED_WILDCARD`: A `"*"`, glob or pattern attribute rule is marked as required, which is ignored
+ * - `TRANSFORMED_PARENT`: An allowed parent is renamed by its transform to a tag that is not allowed as the parent
+ * - `TRANSFORM_TARGET_NOT_ALLOWED`: A tag transform renames elements to a tag without a rule
+ * - `UNKNOWN_MODE`: An attribute rule has an unknown `mode`
+ * - `UNREACHABLE_PATH`: A URL rule lists a path that does not start with `/` and can never match
+ * - `UNREACHABLE_STYLE_PROPERTY`: A style rule lists a property that can never match
+ *
+ * @example
+ * ```typescript
+ * const code: SanitizerOptionsDiagnosticCode = "EMPTY_SEPARATOR";
+ * ```
+ */
+export type SanitizerOptionsDiagnosticCode =
+  | "CONFLICTING_SEPARATORS"
+  | "DEFAULT_VALUE_TOO_LONG"
+  | "EMPTY_SEPARATOR"
+  | "INVALID_HOST"
+  | "INVALID_LIMIT"
+  | "INVALID_PORT"
+  | "INVALID_PROTOCOL"
+  | "REQUIRED_WILDCARD"
+  | "TRANSFORM_TARGET_NOT_ALLOWED"
+  | "TRANSFORMED_PARENT"
+  | "UNKNOWN_MODE"
+  | "UNREACHABLE_PATH"
+  | "UNREACHABLE_STYLE_PROPERTY";
+
+/**
+ * Severity of a sanitizer options diagnostic.
+ *
+ * - `error`: The options are broken and will fail or misbehave at sanitization time
+ * - `warning`: The options work but part of them is ignored
+ */
+export type SanitizerOptionsDiagnosticSeverity = "error" | "warning";
@@ -0,0 +1,49 @@
+import type { SanitizerOptions } from "../src/types/sanitizer";
+
+import { presets } from "../src";
+
+// Every kind of violation is resolved, so the benchmarks never track source locations
+export const benchOptions: SanitizerOptions = {
+  errorHandling: {
+    attribute: "discardAttribute",
+    attributeCollectionValueTooMany: "dropExtra",
+    attributeRecordValue: "dropPair",
+    attributeRecordValueDuplicate: "keepFirst",
+    attributeSetValue: "dropValue",
+    attributeSrcsetValue: "dropCandidate",
+    attributeStyleValue: "dropDeclaration",
+    attributeUrlValue: "discardAttribute",
+    attributeValue: "discardAttribute",
+    attributeValueTooLong: "trimExcess",
+    embedSource: "discardAttribute",
+    scriptSource: "discardElement",
+    tag: "unwrapElement",
+    tagChildren: "discardLasts",
+    tagContent: "unwrapElement",
+    tagFilter: "discardElement",
+    tagNesting: "discardElement",
+    textTooLong: "trimExcess",
+  },
+  tags: {
+    ...presets.richText,
+    a: {
+      attributes: {
+        href: { mode: "url", protocols: ["http", "https"] },
+        rel: {
+          delimiter: " ",
+          mode: "set",
+          values: ["nofollow", "noopener", "noreferrer", "ugc"],
+        },
+      },
+    },
+    span: {
+      attributes: {
+        class: {
+          delimiter: " ",
+          mode: "set",
+          values: Array.from({ length: 50 }, (_, i) => `token-${i}`),
+        },
+      },
+    },
+  },
+};
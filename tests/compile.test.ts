@@ -0,0 +1,180 @@
+import { describe, expect, it } from "vitest";
+
+import type { SanitizerOptions } from "../src/types/sanitizer";
+
+import { compileSanitizerOptions, mayThrow } from "../src/lib/compile";
+import { benchOptions } from "./bench-options";
+
+describe("compileSanitizerOptions", () => {
+  it("turns value lists into set lookups", () => {
+    const compiled = compileSanitizerOptions({
+      tags: {
+        div: {
+          attributes: {
+            class: { delimiter: " ", mode: "set", values: ["row", "col"] },
+            dir: { mode: "simple", value: ["ltr", "rtl"] },
+            style: { mode: "style", properties: { "text-align": ["left"] } },
+          },
+        },
+      },
+    });
+
+    const attributes = compiled.tags?.div.attributes;
+    expect(attributes?.class).toMatchObject({ delimiter: " ", mode: "set" });
+
+    const values = attributes?.class.mode === "set" && attributes.class.values;
+    expect(typeof values).toBe("function");
+    expect((values as (value: string) => boolean)("row")).toBe(true);
+    expect((values as (value: string) => boolean)("grid")).toBe(false);
+
+    const value = attributes?.dir.mode === "simple" && attributes.dir.value;
+    expect((value as (value: string) => boolean)("rtl")).toBe(true);
+
+    const properties =
+      attributes?.style.mode === "style" && attributes.style.properties;
+    expect(typeof (properties as Record<string, unknown>)["text-align"]).toBe(
+      "function",
+    );
+  });
+
+  it("keeps other comparators and options untouched", () => {
+    const regex = /^\d+$/;
+    const options: SanitizerOptions = {
+      errorHandling: { tag: "discardElement" },
+      preserveComments: true,
+      tags: {
+        td: {
+          attributes: {
+            colspan: { mode: "simple", value: regex },
+            title: { mode: "simple", value: "*" },
+          },
+          limits: { children: 3 },
+        },
+      },
+    };
+
+    const compiled = compileSanitizerOptions(options);
+
+    expect(compiled.errorHandling).toBe(options.errorHandling);
+    expect(compiled.preserveComments).toBe(true);
+    expect(compiled.tags?.td).toEqual(options.tags?.td);
+  });
+
+  it("uses lookup tables without inherited keys", () => {
+    const compiled = compileSanitizerOptions({
+      tags: { p: { attributes: { title: { mode: "simple", value: "*" } } } },
+    });
+
+    expect(compiled.tags?.["constructor"]).toBeUndefined();
+    expect(compiled.tags?.p.attributes?.["toString"]).toBeUndefined();
+  });
+
+  it("throws on invalid URL rules upfront", () => {
+    expect(() =>
+      compileSanitizerOptions({
+        tags: {
+          a: { attributes: { href: { hosts: ["bad host"], mode: "url" } } },
+        },
+      }),
+    ).toThrow("Invalid host: bad host");
+  });
+});
+
+describe("mayThrow", () => {
+  it("is false for the benchmark options", () => {
+    expect(mayThrow(benchOptions)).toBe(false);
+  });
+
+  it("caches the result per options object", () => {
+    const errorHandling = { ...benchOptions.errorHandling };
+    const options = { ...benchOptions, errorHandling };
+    expect(mayThrow(options)).toBe(false);
+
+    Object.assign(errorHandling, { tag: "throwError" });
+    expect(mayThrow(options)).toBe(false);
+    expect(mayThrow({ ...options })).toBe(true);
+  });
+
+  it("is true when some error handling is unset or throws", () => {
+    expect(mayThrow({})).toBe(true);
+    expect(mayThrow({ errorHandling: { tag: "discardElement" } })).toBe(true);
+  });
+
+  it("is false when every error handling resolves violations", () => {
+    expect(
+      mayThrow({
+        errorHandling: {
+          attribute: "discardAttribute",
+          attributeCollectionValueTooMany: "dropExtra",
+          attributeRecordValue: "dropPair",
+          attributeRecordValueDuplicate: "keepFirst",
+          attributeSetValue: "dropValue",
+          attributeSrcsetValue: "dropCandidate",
+          attributeStyleValue: "dropDeclaration",
+          attributeUrlValue: "discardAttribute",
+          attributeValue: "discardAttribute",
+          attributeValueTooLong: "trimExcess",
+          embedSource: "discardAttribute",
+          scriptSource: "discardElement",
+          tag: "unwrapElement",
+          tagChildren: "discardLasts",
+          tagContent: "unwrapElement",
+          tagFilter: "discardElement",
+          tagNesting: "discardElement",
+          textTooLong: "trimExcess",
+        },
+      }),
+    ).toBe(false);
+  });
+
+  it("is true when a rule override throws", () => {
+    const errorHandling = {
+      attribute: "discardAttribute",
+      attributeCollectionValueTooMany: "dropExtra",
+      attributeRecordValue: "dropPair",
+      attributeRecordValueDuplicate: "keepFirst",
+      attributeSetValue: "dropValue",
+      attributeSrcsetValue: "dropCandidate",
+      attributeStyleValue: "dropDeclaration",
+      attributeUrlValue: "discardAttribute",
+      attributeValue: "discardAttribute",
+      attributeValueTooLong: "trimExcess",
+      embedSource: "discardAttribute",
+      scriptSource: "discardElement",
+      tag: "unwrapElement",
+      tagChildren: "discardLasts",
+      tagContent: "unwrapElement",
+      tagFilter: "discardElement",
+      tagNesting: "discardElement",
+      textTooLong: "trimExcess",
+    } as const;
+
+    expect(
+      mayThrow({
+        errorHandling,
+        tags: { form: { errorHandling: { attribute: "throwError" } } },
+      }),
+    ).toBe(true);
+    expect(
+      mayThrow({
+        errorHandling,
+        tags: {
+          a: {
+            attributes: {
+              href: {
+                errorHandling: { attributeUrlValue: "throwError" },
+                mode: "url",
+              },
+            },
+          },
+        },
+      }),
+    ).toBe(true);
+    expect(
+      mayThrow({
+        errorHandling,
+        tags: { span: { errorHandling: { attribute: "discardAttribute" } } },
+      }),
+    ).toBe(false);
+  });
+});
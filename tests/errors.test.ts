@@ -0,0 +1,83 @@
+import type { Htmlparser2TreeAdapterMap } from "parse5-htmlparser2-tree-adapter";
+
+import { html, parseFragment } from "parse5";
+import { adapter } from "parse5-htmlparser2-tree-adapter";
+import { describe, expect, it } from "vitest";
+
+import {
+  AttributeSanitizationError,
+  createSanitizationError,
+  LimitSanitizationError,
+  SanitizationError,
+  TagSanitizationError,
+} from "../src/lib/errors";
+
+describe("createSanitizationError", () => {
+  it("creates a tag error with the source location of the element", () => {
+    const frag: Htmlparser2TreeAdapterMap["documentFragment"] = parseFragment(
+      "<p>Hi</p>\n  <script>x</script>",
+      { sourceCodeLocationInfo: true, treeAdapter: adapter },
+    );
+    const script = frag.children[2] as Htmlparser2TreeAdapterMap["element"];
+
+    const error = createSanitizationError(script, {
+      kind: "tag",
+      message: "Tag script is not allowed",
+    });
+
+    expect(error).toBeInstanceOf(TagSanitizationError);
+    expect(error).toBeInstanceOf(SanitizationError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe("TagSanitizationError");
+    expect(error.message).toBe("Tag script is not allowed");
+    expect(error.code).toBe("TAG_NOT_ALLOWED");
+    expect(error.kind).toBe("tag");
+    expect(error.tag).toBe("script");
+    expect(error.location).toEqual({ column: 3, line: 2, offset: 12 });
+  });
+
+  it("creates an attribute error carrying the attribute, value and limit", () => {
+    const el = adapter.createElement("input", html.NS.HTML, []);
+
+    const error = createSanitizationError(el, {
+      attribute: "value",
+      kind: "attributeValueTooLong",
+      limit: 3,
+      message: "Value abcd for attribute value is too long",
+      value: "abcd",
+    });
+
+    expect(error).toBeInstanceOf(AttributeSanitizationError);
+    expect(error.code).toBe("ATTRIBUTE_VALUE_TOO_LONG");
+    expect(error.attribute).toBe("value");
+    expect(error.value).toBe("abcd");
+    expect(error.limit).toBe(3);
+    expect(error.tag).toBe("input");
+    expect(error.location).toBeUndefined();
+  });
+
+  it("creates limit errors for children and nesting violations of the root", () => {
+    const frag: Htmlparser2TreeAdapterMap["documentFragment"] = parseFragment(
+      "<p></p>",
+      { treeAdapter: adapter },
+    );
+
+    const children = createSanitizationError(frag, {
+      kind: "tagChildren",
+      limit: 0,
+      message: "Root has exceeded the maximum allowed number of children of 0",
+    });
+    const nesting = createSanitizationError(frag, {
+      kind: "tagNesting",
+      limit: 1,
+      message: "Root has exceeded the maximum nesting level of 1",
+    });
+
+    expect(children).toBeInstanceOf(LimitSanitizationError);
+    expect(children.code).toBe("CHILDREN_EXCEEDED");
+    expect(children.tag).toBeUndefined();
+    expect(nesting).toBeInstanceOf(LimitSanitizationError);
+    expect(nesting.code).toBe("NESTING_EXCEEDED");
+    expect(nesting.limit).toBe(1);
+  });
+});
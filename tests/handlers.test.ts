@@ -5,14 +5,23 @@ import { adapter } from "parse5-htmlparser2-tree-adapter";
 import { beforeEach, describe, expect, it } from "vitest";
 
 import {
+  handleEmbedSourceError,
+  handleScriptSourceError,
   handleTagAttributeError,
   handleTagAttributeRecordValueError,
   handleTagAttributeSetValueError,
+  handleTagAttributeSrcsetValueError,
+  handleTagAttributeStyleValueError,
+  handleTagAttributeUrlValueError,
   handleTagAttributeValueError,
   handleTagAttributeValueTooLongError,
   handleTagChildrenError,
+  handleTagContentError,
   handleTagError,
+  handleTagFilterError,
   handleTagNestingError,
+  handleTextTooLongError,
+  withNonTextTags,
 } from "../src/lib/handlers/direct";
 import {
   handleTagAttributeCollectionValueTooManyError,
@@ -20,6 +29,78 @@ import {
 } from "../src/lib/handlers/indirect";
 
 describe("handlers/direct", () => {
+  describe("handleEmbedSourceError", () => {
+    let base: Htmlparser2TreeAdapterMap["element"];
+    let el: Htmlparser2TreeAdapterMap["element"];
+
+    beforeEach(() => {
+      base = adapter.createElement("root", html.NS.HTML, []);
+      el = adapter.createElement("iframe", html.NS.HTML, [
+        { name: "src", value: "https://evil.com" },
+      ]);
+      adapter.appendChild(base, el);
+    });
+
+    it("discards the source attribute", () => {
+      expect(
+        handleEmbedSourceError(
+          { key: "src", value: "https://evil.com" },
+          el,
+          "discardAttribute",
+        ),
+      ).toBe(true);
+      expect(el.attribs.src).toBeUndefined();
+    });
+
+    it("discards element", () => {
+      expect(
+        handleEmbedSourceError(
+          { key: "src", value: "https://evil.com" },
+          el,
+          "discardElement",
+        ),
+      ).toBe(false);
+      expect(base.children).toHaveLength(0);
+    });
+
+    it("throws error by default", () => {
+      expect(() =>
+        handleEmbedSourceError({ key: "src", value: "https://evil.com" }, el),
+      ).toThrow("Source https://evil.com of iframe is not allowed");
+    });
+  });
+
+  describe("handleScriptSourceError", () => {
+    let base: Htmlparser2TreeAdapterMap["element"];
+
+    beforeEach(() => {
+      base = adapter.createElement("root", html.NS.HTML, []);
+    });
+
+    it("discards element", () => {
+      const el = adapter.createElement("script", html.NS.HTML, []);
+      adapter.appendChild(base, el);
+
+      expect(handleScriptSourceError(el, "x", "discardElement")).toBe(false);
+      expect(base.children).toHaveLength(0);
+    });
+
+    it("throws error by default with the source", () => {
+      const el = adapter.createElement("script", html.NS.HTML, [
+        { name: "src", value: "https://evil.com/x.js" },
+      ]);
+      adapter.appendChild(base, el);
+
+      expect(() => handleScriptSourceError(el, "x")).toThrow(
+        expect.objectContaining({
+          attribute: "src",
+          code: "SCRIPT_SOURCE_NOT_ALLOWED",
+          value: "https://evil.com/x.js",
+        }),
+      );
+    });
+  });
+
   describe("handleTagAttributeError", () => {
     let base: Htmlparser2TreeAdapterMap["element"];
     let el: Htmlparser2TreeAdapterMap["element"];
@@ -188,6 +269,179 @@ describe("handlers/direct", () => {
     });
   });
 
+  describe("handleTagAttributeSrcsetValueError", () => {
+    let base: Htmlparser2TreeAdapterMap["element"];
+    let el: Htmlparser2TreeAdapterMap["element"];
+
+    const candidates = [{ descriptors: "2x", url: "javascript:x" }];
+    const rule = { mode: "srcset" as const };
+
+    beforeEach(() => {
+      base = adapter.createElement("root", html.NS.HTML, []);
+      el = adapter.createElement("img", html.NS.HTML, []);
+      adapter.appendChild(base, el);
+    });
+
+    it("drops candidate", () => {
+      expect(
+        handleTagAttributeSrcsetValueError(
+          { key: "srcset", value: "javascript:x 2x" },
+          el,
+          candidates,
+          0,
+          rule,
+          "dropCandidate",
+        ),
+      ).toBe(true);
+    });
+
+    it("falls back to attribute value error handling", () => {
+      el.attribs.srcset = "javascript:x 2x";
+
+      expect(
+        handleTagAttributeSrcsetValueError(
+          { key: "srcset", value: "javascript:x 2x" },
+          el,
+          candidates,
+          0,
+          rule,
+          "discardAttribute",
+        ),
+      ).toBe(true);
+      expect(el.attribs.srcset).toBeUndefined();
+    });
+
+    it("handles default error handling", () => {
+      expect(() => {
+        handleTagAttributeSrcsetValueError(
+          { key: "srcset", value: "javascript:x 2x" },
+          el,
+          candidates,
+          0,
+          rule,
+        );
+      }).toThrow(
+        /Candidate javascript:x 2x for attribute srcset is not allowed/,
+      );
+    });
+  });
+
+  describe("handleTagAttributeStyleValueError", () => {
+    let base: Htmlparser2TreeAdapterMap["element"];
+    let el: Htmlparser2TreeAdapterMap["element"];
+
+    beforeEach(() => {
+      base = adapter.createElement("root", html.NS.HTML, []);
+      el = adapter.createElement("test", html.NS.HTML, []);
+      adapter.appendChild(base, el);
+    });
+
+    it("drops declaration", () => {
+      const declarations = [
+        { important: false, key: "position", val: "fixed" },
+      ];
+      const rule = {
+        mode: "style" as const,
+        properties: { color: "*" },
+      };
+
+      const result = handleTagAttributeStyleValueError(
+        { key: "style", value: "position:fixed" },
+        el,
+        declarations,
+        0,
+        rule,
+        "dropDeclaration",
+      );
+
+      expect(result).toBe(true);
+    });
+
+    it("handles default error handling", () => {
+      const declarations = [
+        { important: false, key: "position", val: "fixed" },
+      ];
+      const rule = {
+        mode: "style" as const,
+        properties: { color: "*" },
+      };
+
+      expect(() => {
+        handleTagAttributeStyleValueError(
+          { key: "style", value: "position:fixed" },
+          el,
+          declarations,
+          0,
+          rule,
+        );
+      }).toThrow(
+        /Declaration position:fixed for attribute style is not allowed/,
+      );
+    });
+  });
+
+  describe("handleTagAttributeUrlValueError", () => {
+    let base: Htmlparser2TreeAdapterMap["element"];
+    let el: Htmlparser2TreeAdapterMap["element"];
+
+    beforeEach(() => {
+      base = adapter.createElement("root", html.NS.HTML, []);
+      el = adapter.createElement("test", html.NS.HTML, []);
+      adapter.appendChild(base, el);
+    });
+
+    it("applies default value", () => {
+      el.attribs.href = "javascript:alert(1)";
+      const rule = {
+        defaultValue: "https://example.com",
+        mode: "url" as const,
+        protocols: ["https"],
+      };
+
+      const result = handleTagAttributeUrlValueError(
+        { key: "href", value: "javascript:alert(1)" },
+        el,
+        rule,
+        "applyDefaultValue",
+      );
+
+      expect(result).toBe(true);
+      expect(el.attribs.href).toBe("https://example.com");
+    });
+
+    it("discards element", () => {
+      const rule = {
+        mode: "url" as const,
+        protocols: ["https"],
+      };
+
+      const result = handleTagAttributeUrlValueError(
+        { key: "href", value: "javascript:alert(1)" },
+        el,
+        rule,
+        "discardElement",
+      );
+
+      expect(result).toBe(false);
+      expect(base.children).toHaveLength(0);
+    });
+
+    it("handles default error handling", () => {
+      const rule = {
+        mode: "url" as const,
+        protocols: ["https"],
+      };
+
+      expect(() => {
+        handleTagAttributeUrlValueError(
+          { key: "href", value: "javascript:alert(1)" },
+          el,
+          rule,
+        );
+      }).toThrow(/URL javascript:alert\(1\) for attribute href is not allowed/);
+    });
+  });
+
   describe("handleTagAttributeValueError", () => {
     let base: Htmlparser2TreeAdapterMap["element"];
     let el: Htmlparser2TreeAdapterMap["element"];
@@ -399,6 +653,52 @@ describe("handlers/direct", () => {
     });
   });
 
+  describe("handleTagContentError", () => {
+    let base: Htmlparser2TreeAdapterMap["element"];
+    let el: Htmlparser2TreeAdapterMap["element"];
+    let child: Htmlparser2TreeAdapterMap["element"];
+
+    beforeEach(() => {
+      base = adapter.createElement("root", html.NS.HTML, []);
+      el = adapter.createElement("li", html.NS.HTML, []);
+      child = adapter.createElement("child", html.NS.HTML, []);
+      adapter.appendChild(base, el);
+      adapter.appendChild(el, child);
+    });
+
+    it("discards element", () => {
+      expect(handleTagContentError(el, "x", "ul", "discardElement")).toBe(
+        false,
+      );
+      expect(base.children).toHaveLength(0);
+    });
+
+    it("unwraps element", () => {
+      expect(handleTagContentError(el, "x", "ul", "unwrapElement")).toBe(false);
+      expect(base.children).toEqual([child]);
+    });
+
+    it("wraps element in the required parent", () => {
+      expect(handleTagContentError(el, "x", "ul", "wrapInRequiredParent")).toBe(
+        false,
+      );
+      expect(base.children).toHaveLength(1);
+      expect(base.children[0]).toMatchObject({ tagName: "ul" });
+      expect(el.parentNode).toBe(base.children[0]);
+    });
+
+    it("unwraps element without a required parent", () => {
+      expect(
+        handleTagContentError(el, "x", undefined, "wrapInRequiredParent"),
+      ).toBe(false);
+      expect(base.children).toEqual([child]);
+    });
+
+    it("throws error by default", () => {
+      expect(() => handleTagContentError(el, "x", "ul")).toThrow();
+    });
+  });
+
   describe("handleTagError", () => {
     let base: Htmlparser2TreeAdapterMap["element"];
     let el: Htmlparser2TreeAdapterMap["element"];
@@ -427,6 +727,55 @@ describe("handlers/direct", () => {
       expect(base.children[0]).toBe(child);
     });
 
+    it("discards non-text elements instead of unwrapping them", () => {
+      const style = adapter.createElement("style", html.NS.HTML, []);
+      adapter.appendChild(style, adapter.createTextNode("p{}"));
+      adapter.appendChild(base, style);
+
+      const result = handleTagError(style, "unwrapElement");
+
+      expect(result).toBe(false);
+      expect(base.children).toEqual([el]);
+    });
+
+    it("discards the non-text elements of the innermost run", () => {
+      const child = adapter.createElement("child", html.NS.HTML, []);
+      adapter.appendChild(el, child);
+
+      const result = withNonTextTags(["script"], () =>
+        withNonTextTags(["test"], () => handleTagError(el, "unwrapElement")),
+      );
+
+      expect(result).toBe(false);
+      expect(base.children).toHaveLength(0);
+    });
+
+    it("escapes element", () => {
+      const child = adapter.createElement("child", html.NS.HTML, []);
+      adapter.appendChild(el, child);
+      el.attribs.id = "x";
+
+      const result = handleTagError(el, "escapeElement");
+
+      expect(result).toBe(false);
+      expect(base.children).toHaveLength(3);
+      expect(base.children[0]).toMatchObject({ data: '<test id="x">' });
+      expect(base.children[1]).toBe(child);
+      expect(base.children[2]).toMatchObject({ data: "</test>" });
+    });
+
+    it("recursively escapes element", () => {
+      adapter.appendChild(el, adapter.createElement("child", html.NS.HTML, []));
+
+      const result = handleTagError(el, "recursiveEscapeElement");
+
+      expect(result).toBe(false);
+      expect(base.children).toHaveLength(1);
+      expect(base.children[0]).toMatchObject({
+        data: "<test><child></child></test>",
+      });
+    });
+
     it("throws error by default", () => {
       expect(() => {
         handleTagError(el);
@@ -440,6 +789,44 @@ describe("handlers/direct", () => {
     });
   });
 
+  describe("handleTagFilterError", () => {
+    let base: Htmlparser2TreeAdapterMap["element"];
+    let el: Htmlparser2TreeAdapterMap["element"];
+
+    beforeEach(() => {
+      base = adapter.createElement("root", html.NS.HTML, []);
+      el = adapter.createElement("test", html.NS.HTML, []);
+      adapter.appendChild(base, el);
+      adapter.insertText(el, "content");
+    });
+
+    it("discards element", () => {
+      const result = handleTagFilterError(el, "discardElement");
+
+      expect(result).toBe(false);
+      expect(base.children).toHaveLength(0);
+    });
+
+    it("unwraps element", () => {
+      const result = handleTagFilterError(el, "unwrapElement");
+
+      expect(result).toBe(false);
+      expect(base.children).toHaveLength(1);
+      expect(adapter.isTextNode(base.children[0])).toBe(true);
+    });
+
+    it("throws a filter error by default", () => {
+      expect(() => {
+        handleTagFilterError(el);
+      }).toThrow(
+        expect.objectContaining({
+          code: "TAG_FILTERED",
+          message: "Tag test was rejected by a filter",
+        }),
+      );
+    });
+  });
+
   describe("handleTagNestingError", () => {
     let base: Htmlparser2TreeAdapterMap["element"];
     let el: Htmlparser2TreeAdapterMap["element"];
@@ -477,6 +864,46 @@ describe("handlers/direct", () => {
       }).toThrow();
     });
   });
+
+  describe("handleTextTooLongError", () => {
+    let base: Htmlparser2TreeAdapterMap["element"];
+    let text: Htmlparser2TreeAdapterMap["textNode"];
+
+    beforeEach(() => {
+      base = adapter.createElement("root", html.NS.HTML, []);
+      adapter.insertText(base, "Hello World");
+      text = base.firstChild as Htmlparser2TreeAdapterMap["textNode"];
+    });
+
+    it("trims excess text", () => {
+      const result = handleTextTooLongError(text, base, 5, 20, "trimExcess");
+
+      expect(result).toBe(true);
+      expect(text.data).toBe("Hello");
+    });
+
+    it("removes the text node when nothing is left", () => {
+      const result = handleTextTooLongError(text, base, 0, 20, "trimExcess");
+
+      expect(result).toBe(false);
+      expect(base.children).toHaveLength(0);
+    });
+
+    it("does not split surrogate pairs", () => {
+      text.data = "ab\u{1F600}cd";
+
+      const result = handleTextTooLongError(text, base, 3, 20, "trimExcess");
+
+      expect(result).toBe(true);
+      expect(text.data).toBe("ab");
+    });
+
+    it("throws error by default", () => {
+      expect(() => {
+        handleTextTooLongError(text, base, 5, 20);
+      }).toThrow("Text has exceeded the maximum length of 20");
+    });
+  });
 });
 
 describe("handlers/indirect", () => {
@@ -1,16 +1,72 @@
 import type { Htmlparser2TreeAdapterMap } from "parse5-htmlparser2-tree-adapter";
 
-import { html } from "parse5";
+import { html, parseFragment } from "parse5";
 import { adapter } from "parse5-htmlparser2-tree-adapter";
 import { describe, expect, it } from "vitest";
 
 import {
+  escapeInParent,
+  getOwnEntry,
+  getTextContent,
   matchComparator,
   parseRecord,
   parseSet,
+  parseSrcset,
+  parseStyle,
   unwrapInParent,
+  wrapInParent,
 } from "../src/lib/helpers";
 
+describe("escapeInParent", () => {
+  it("escapes void elements without an end tag", () => {
+    const frag: Htmlparser2TreeAdapterMap["documentFragment"] = parseFragment(
+      '<p>a<img src="x.png" alt="&quot;">b</p>',
+      { treeAdapter: adapter },
+    );
+    const p = frag.children[0] as Htmlparser2TreeAdapterMap["element"];
+
+    escapeInParent(
+      p.children[1] as Htmlparser2TreeAdapterMap["element"],
+      false,
+    );
+    expect(getTextContent(p)).toBe('a<img src="x.png" alt="&quot;">b');
+  });
+
+  it("detaches element without parent", () => {
+    const el = adapter.createElement("x", html.NS.HTML, []);
+
+    escapeInParent(el, true);
+    expect(el.parentNode).toBeNull();
+  });
+});
+
+describe("getOwnEntry", () => {
+  it("returns own entries only", () => {
+    const record = { a: 1 };
+
+    expect(getOwnEntry(record, "a")).toBe(1);
+    expect(getOwnEntry(record, "b")).toBeUndefined();
+    expect(getOwnEntry(record, "constructor")).toBeUndefined();
+    expect(getOwnEntry(undefined, "a")).toBeUndefined();
+  });
+});
+
+describe("getTextContent", () => {
+  it("concatenates the text of all descendants", () => {
+    const frag: Htmlparser2TreeAdapterMap["documentFragment"] = parseFragment(
+      "<p>Hello <b>big <i>wide</i></b><!-- no --> world</p>",
+      { treeAdapter: adapter },
+    );
+
+    expect(getTextContent(frag)).toBe("Hello big wide world");
+  });
+
+  it("returns an empty string without text", () => {
+    const el = adapter.createElement("p", html.NS.HTML, []);
+    expect(getTextContent(el)).toBe("");
+  });
+});
+
 describe("matchComparator", () => {
   it("matches '*' wildcard", () => {
     expect(matchComparator("*", "anything")).toBe(true);
@@ -99,6 +155,72 @@ describe("parseSet", () => {
   });
 });
 
+describe("parseSrcset", () => {
+  it("returns empty array for blank input", () => {
+    expect(parseSrcset("")).toEqual([]);
+    expect(parseSrcset(" , ")).toEqual([]);
+  });
+
+  it("splits candidates into URLs and descriptors", () => {
+    expect(parseSrcset(" a.png 480w,\n b.png  2x , c.png")).toEqual([
+      { descriptors: "480w", url: "a.png" },
+      { descriptors: "2x", url: "b.png" },
+      { descriptors: "", url: "c.png" },
+    ]);
+  });
+
+  it("keeps commas inside URLs and parenthesized descriptors", () => {
+    expect(
+      parseSrcset("a.png?x=1,2 1x,b.png,, c.png foo(1,2) 2x, d.png"),
+    ).toEqual([
+      { descriptors: "1x", url: "a.png?x=1,2" },
+      { descriptors: "", url: "b.png" },
+      { descriptors: "foo(1,2) 2x", url: "c.png" },
+      { descriptors: "", url: "d.png" },
+    ]);
+  });
+});
+
+describe("parseStyle", () => {
+  it("returns empty array for blank input", () => {
+    expect(parseStyle("")).toEqual([]);
+    expect(parseStyle("   ")).toEqual([]);
+  });
+
+  it("parses declarations with lowercase properties and important flags", () => {
+    expect(parseStyle("COLOR: red; Text-Align: center !important")).toEqual([
+      { important: false, key: "color", val: "red" },
+      { important: true, key: "text-align", val: "center" },
+    ]);
+  });
+
+  it("keeps separators inside functions and strings", () => {
+    expect(
+      parseStyle(
+        "background: url(data:image/png;base64,AAAA); content: 'a;b:c'",
+      ),
+    ).toEqual([
+      {
+        important: false,
+        key: "background",
+        val: "url(data:image/png;base64,AAAA)",
+      },
+      { important: false, key: "content", val: "'a;b:c'" },
+    ]);
+  });
+
+  it("skips comments and nested rules, and keeps custom property case", () => {
+    expect(parseStyle("/* c */ --Main-Color: red; a { color: blue }")).toEqual([
+      { important: false, key: "--Main-Color", val: "red" },
+    ]);
+  });
+
+  it("returns null for unparsable input", () => {
+    expect(parseStyle("color: red; }")).toBeNull();
+    expect(parseStyle("color: 'unclosed")).toBeNull();
+  });
+});
+
 describe("unwrapInParent", () => {
   it("detaches element with no children", () => {
     const parent = adapter.createElement("parent", html.NS.HTML, []);
@@ -188,3 +310,20 @@ describe("unwrapInParent", () => {
     expect(target.parentNode).toBeNull();
   });
 });
+
+describe("wrapInParent", () => {
+  it("replaces element with a new parent containing it", () => {
+    const parent = adapter.createElement("parent", html.NS.HTML, []);
+    const el = adapter.createElement("li", html.NS.HTML, []);
+    const next = adapter.createElement("next", html.NS.HTML, []);
+    adapter.appendChild(parent, el);
+    adapter.appendChild(parent, next);
+
+    wrapInParent(el, "ul");
+
+    expect(parent.children).toHaveLength(2);
+    expect(parent.children[0]).toMatchObject({ tagName: "ul" });
+    expect(parent.children[1]).toBe(next);
+    expect(el.parentNode).toBe(parent.children[0]);
+  });
+});
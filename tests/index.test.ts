@@ -1,6 +1,15 @@
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
 
-import { sanitizeHtml } from "../src";
+import {
+  AttributeSanitizationError,
+  createSanitizer,
+  LimitSanitizationError,
+  SanitizationError,
+  sanitizeHtml,
+  sanitizeHtmlWithReport,
+  TagSanitizationError,
+  urlTransforms,
+} from "../src";
 
 describe("sanitizeHtml", () => {
   it("returns empty string for empty input", () => {
@@ -257,6 +266,94 @@ describe("sanitizeHtml", () => {
     expect(result).toBe("<a>Link</a>");
   });
 
+  it("handles url attribute values", () => {
+    const html =
+      '<a href="https://example.com">Safe</a><a href="javascript:alert(1)">Unsafe</a><img src="/logo.png">';
+    const result = sanitizeHtml(html, {
+      errorHandling: {
+        attributeUrlValue: "discardAttribute",
+      },
+      tags: {
+        a: {
+          attributes: {
+            href: {
+              hosts: ["example.com"],
+              mode: "url",
+              protocols: ["https"],
+            },
+          },
+        },
+        img: {
+          attributes: {
+            src: {
+              allowRelative: true,
+              mode: "url",
+            },
+          },
+        },
+      },
+    });
+    expect(result).toBe(
+      '<a href="https://example.com">Safe</a><a>Unsafe</a><img src="/logo.png">',
+    );
+  });
+
+  it("rejects scripting schemes with a host in url values", () => {
+    for (const href of [
+      { mode: "url" },
+      { hosts: ["example.com"], mode: "url" },
+    ] as const) {
+      expect(
+        sanitizeHtml(
+          '<a href="javascript://example.com/%0aalert(1)">x</a><a href="data://example.com/,x">y</a>',
+          {
+            errorHandling: { attributeUrlValue: "discardAttribute" },
+            tags: { a: { attributes: { href } } },
+          },
+        ),
+      ).toBe("<a>x</a><a>y</a>");
+    }
+  });
+
+  it("ignores inherited style properties like compiled options do", () => {
+    const options = {
+      errorHandling: { attributeStyleValue: "dropDeclaration" },
+      tags: {
+        p: {
+          attributes: { style: { mode: "style", properties: { color: "*" } } },
+        },
+      },
+    } as const;
+    const input = '<p style="constructor: evil; color: red">a</p>';
+
+    expect(sanitizeHtml(input, options)).toBe('<p style="color:red">a</p>');
+    expect(createSanitizer(options)(input)).toBe(sanitizeHtml(input, options));
+  });
+
+  it("handles style attribute values", () => {
+    const html =
+      '<p style="color: red; background: url(javascript:alert(1)); font-weight: bold !important">Text</p>';
+    const result = sanitizeHtml(html, {
+      errorHandling: {
+        attributeStyleValue: "dropDeclaration",
+      },
+      tags: {
+        p: {
+          attributes: {
+            style: {
+              mode: "style",
+              properties: {
+                color: /^[a-z]+$/,
+                "font-weight": ["normal", "bold"],
+              },
+            },
+          },
+        },
+      },
+    });
+    expect(result).toBe('<p style="color:red">Text</p>');
+  });
+
   it("handles record attribute values", () => {
     const html = '<div data="key1=value1,key2=value2">Content</div>';
     const result = sanitizeHtml(html, {
@@ -423,6 +520,123 @@ describe("sanitizeHtml", () => {
     expect(result).toBe('<input type="checkbox" checked="" disabled="">');
   });
 
+  it("throws typed errors with codes and source locations", () => {
+    let error: unknown;
+    try {
+      sanitizeHtml("<div>\n  <iframe></iframe></div>", {
+        errorHandling: { tag: "throwError" },
+        tags: { div: {} },
+      });
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(TagSanitizationError);
+    expect(error).toMatchObject({
+      code: "TAG_NOT_ALLOWED",
+      location: { column: 3, line: 2, offset: 8 },
+      message: "Tag iframe is not allowed",
+      tag: "iframe",
+    });
+  });
+
+  it("only tracks source locations when errors may be thrown", () => {
+    const locations: unknown[] = [];
+    const tags = {
+      b: {
+        transform: {
+          callback: (element: { sourceCodeLocation?: unknown }) => {
+            locations.push(element.sourceCodeLocation);
+          },
+        },
+      },
+    };
+    const errorHandling = {
+      attribute: "discardAttribute",
+      attributeCollectionValueTooMany: "dropExtra",
+      attributeRecordValue: "dropPair",
+      attributeRecordValueDuplicate: "keepFirst",
+      attributeSetValue: "dropValue",
+      attributeSrcsetValue: "dropCandidate",
+      attributeStyleValue: "dropDeclaration",
+      attributeUrlValue: "discardAttribute",
+      attributeValue: "discardAttribute",
+      attributeValueTooLong: "trimExcess",
+      embedSource: "discardAttribute",
+      scriptSource: "discardElement",
+      tag: "unwrapElement",
+      tagChildren: "discardLasts",
+      tagContent: "unwrapElement",
+      tagFilter: "discardElement",
+      tagNesting: "discardElement",
+      textTooLong: "trimExcess",
+    } as const;
+
+    sanitizeHtml("<b>a</b>", { errorHandling, tags });
+    sanitizeHtml("<b>a</b>", { tags });
+
+    expect(locations).toEqual([
+      undefined,
+      expect.objectContaining({ startOffset: 0 }),
+    ]);
+  });
+
+  it("throws attribute errors with the original rule code", () => {
+    expect(() =>
+      sanitizeHtml('<input value="too long">', {
+        tags: {
+          input: {
+            attributes: {
+              value: { maxLength: 3, mode: "simple", value: "*" },
+            },
+          },
+        },
+      }),
+    ).toThrow(
+      expect.objectContaining({
+        attribute: "value",
+        code: "ATTRIBUTE_VALUE_TOO_LONG",
+        constructor: AttributeSanitizationError,
+        limit: 3,
+        tag: "input",
+        value: "too long",
+      }),
+    );
+  });
+
+  it("throws limit errors", () => {
+    expect(() =>
+      sanitizeHtml("<p>1</p><p>2</p>", {
+        tags: { p: {} },
+        topLevelLimits: { children: 1 },
+      }),
+    ).toThrow(LimitSanitizationError);
+    expect(() =>
+      sanitizeHtml("<p>1</p><p>2</p>", {
+        tags: { p: {} },
+        topLevelLimits: { children: 1 },
+      }),
+    ).toThrow(SanitizationError);
+  });
+
+  it("calls onViolation for each violation acted on", () => {
+    const onViolation = vi.fn();
+    const result = sanitizeHtml('<div title="x">Hello</div>', {
+      errorHandling: { attribute: "discardAttribute" },
+      onViolation,
+      tags: { div: {} },
+    });
+
+    expect(result).toBe("<div>Hello</div>");
+    expect(onViolation).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: "discardAttribute",
+        attribute: "title",
+        kind: "attribute",
+      }),
+    );
+  });
+
   it("returns empty string when top level children limit exceeded with discardElement", () => {
     const html = "<div>1</div><div>2</div><div>3</div>";
     const result = sanitizeHtml(html, {
@@ -439,3 +653,1460 @@ describe("sanitizeHtml", () => {
     expect(result).toBe("");
   });
 });
+
+describe("sanitizeHtml tag transforms", () => {
+  it("renames elements and validates them against the target rule", () => {
+    const result = sanitizeHtml(
+      '<ol start="2" class="steps"><li>One</li></ol>',
+      {
+        errorHandling: { attribute: "discardAttribute" },
+        tags: {
+          li: {},
+          ol: {
+            attributes: { start: { mode: "simple", value: /^\d+$/ } },
+            transform: { tagName: "ul" },
+          },
+          ul: { attributes: { class: { mode: "simple", value: "*" } } },
+        },
+      },
+    );
+    expect(result).toBe('<ul class="steps"><li>One</li></ul>');
+  });
+
+  it("applies error handling when the target tag is not allowed", () => {
+    const result = sanitizeHtml("<p><font>Text</font></p>", {
+      errorHandling: { tag: "unwrapElement" },
+      tags: { font: { transform: { tagName: "marquee" } }, p: {} },
+    });
+    expect(result).toBe("<p>Text</p>");
+  });
+
+  it("injects attributes before they are sanitized", () => {
+    const result = sanitizeHtml(
+      '<a href="https://example.com" target="_self" rel="opener">Link</a>',
+      {
+        errorHandling: { attribute: "discardAttribute" },
+        tags: {
+          a: {
+            attributes: {
+              href: { mode: "url", protocols: ["https"] },
+              rel: { mode: "simple", value: "noopener noreferrer" },
+              target: { mode: "simple", value: "_blank" },
+            },
+            transform: {
+              attributes: { rel: "noopener noreferrer", target: "_blank" },
+            },
+          },
+        },
+      },
+    );
+    expect(result).toBe(
+      '<a href="https://example.com" target="_blank" rel="noopener noreferrer">Link</a>',
+    );
+  });
+
+  it("runs the callback with the element and validates its changes", () => {
+    const result = sanitizeHtml('<img src="a.png"><img src="b.png" alt="B">', {
+      errorHandling: { attribute: "discardAttribute" },
+      tags: {
+        img: {
+          attributes: {
+            alt: { mode: "simple", value: "*" },
+            src: { mode: "simple", value: "*" },
+          },
+          transform: {
+            callback: (element) => {
+              element.attribs.alt ??= "";
+              element.attribs.onload = "x";
+            },
+          },
+        },
+      },
+    });
+    expect(result).toBe('<img src="a.png" alt=""><img src="b.png" alt="B">');
+  });
+
+  it("does not chain transforms", () => {
+    const result = sanitizeHtml("<b>Bold</b>", {
+      tags: {
+        b: { transform: { tagName: "strong" } },
+        strong: { transform: { tagName: "em" } },
+      },
+    });
+    expect(result).toBe("<strong>Bold</strong>");
+  });
+});
+
+describe("sanitizeHtml URL transforms", () => {
+  it("rewrites allowed URLs in order once every attribute is sanitized", () => {
+    const result = sanitizeHtml(
+      '<a href="http://other.com/?utm_source=x&id=1" rel="opener">x</a>' +
+        '<a href="/local?fbclid=y">y</a><a href="javascript:alert(1)">z</a>',
+      {
+        errorHandling: { attributeUrlValue: "discardAttribute" },
+        tags: {
+          a: {
+            attributes: {
+              href: {
+                allowRelative: true,
+                mode: "url",
+                protocols: ["http", "https"],
+                transforms: [
+                  urlTransforms.stripQueryParameters(),
+                  urlTransforms.upgradeToHttps(),
+                  urlTransforms.externalLinks({ hosts: ["example.com"] }),
+                ],
+              },
+              rel: { mode: "simple", value: "*" },
+            },
+          },
+        },
+      },
+    );
+
+    expect(result).toBe(
+      '<a href="https://other.com/?id=1" rel="opener noopener noreferrer" target="_blank">x</a>' +
+        '<a href="/local">y</a><a>z</a>',
+    );
+  });
+
+  it("passes the attribute and element to custom transforms", () => {
+    const transform = vi.fn((value: string) => value.toUpperCase());
+
+    expect(
+      sanitizeHtml('<img src="/a.png">', {
+        tags: {
+          img: {
+            attributes: {
+              src: {
+                allowRelative: true,
+                mode: "url",
+                transforms: [transform],
+              },
+            },
+          },
+        },
+      }),
+    ).toBe('<img src="/A.PNG">');
+    expect(transform).toHaveBeenCalledWith("/a.png", {
+      attribute: "src",
+      element: expect.objectContaining({ tagName: "img" }),
+    });
+  });
+});
+
+describe("sanitizeHtml srcset values", () => {
+  it("drops invalid image candidates individually", () => {
+    const result = sanitizeHtml(
+      '<picture><source srcset="https://cdn.example.com/a.webp 1x, https://evil.com/a.webp 2x">' +
+        '<img src="/a.png" srcset="/a.png 480w, /b.png 2q, java&#x09;script:alert(1) 800w"></picture>',
+      {
+        errorHandling: { attributeSrcsetValue: "dropCandidate" },
+        tags: {
+          img: {
+            attributes: {
+              src: { allowRelative: true, mode: "url" },
+              srcset: { allowRelative: true, mode: "srcset" },
+            },
+          },
+          picture: {},
+          source: {
+            attributes: {
+              srcset: {
+                hosts: ["cdn.example.com"],
+                mode: "srcset",
+                protocols: ["https"],
+              },
+            },
+          },
+        },
+      },
+    );
+
+    expect(result).toBe(
+      '<picture><source srcset="https://cdn.example.com/a.webp 1x">' +
+        '<img src="/a.png" srcset="/a.png 480w"></picture>',
+    );
+  });
+
+  it("reports the dropped candidates", () => {
+    expect(
+      sanitizeHtmlWithReport('<img srcset="a.png 1x, b.png 0x">', {
+        errorHandling: { attributeSrcsetValue: "dropCandidate" },
+        tags: {
+          img: {
+            attributes: { srcset: { allowRelative: true, mode: "srcset" } },
+          },
+        },
+      }),
+    ).toEqual({
+      html: '<img srcset="a.png 1x">',
+      violations: [
+        expect.objectContaining({
+          action: "dropCandidate",
+          attribute: "srcset",
+          kind: "attributeSrcsetValue",
+          value: "b.png 0x",
+        }),
+      ],
+    });
+  });
+
+  it("checks every URL of ping attributes with the urls format", () => {
+    expect(
+      sanitizeHtml(
+        '<a href="/x" ping="https://stats.example.com/p https://evil.com/p">x</a>',
+        {
+          errorHandling: { attributeSrcsetValue: "dropCandidate" },
+          tags: {
+            a: {
+              attributes: {
+                href: { allowRelative: true, mode: "url" },
+                ping: {
+                  format: "urls",
+                  hosts: ["stats.example.com"],
+                  mode: "srcset",
+                },
+              },
+            },
+          },
+        },
+      ),
+    ).toBe('<a href="/x" ping="https://stats.example.com/p">x</a>');
+  });
+
+  it("applies URL transforms to each candidate", () => {
+    const transforms = [urlTransforms.proxy("https://proxy.example.com/?u=")];
+
+    expect(
+      sanitizeHtml(
+        '<img src="https://cdn.com/a.png" srcset="https://cdn.com/a.png 1x, /b.png 2x">',
+        {
+          tags: {
+            img: {
+              attributes: {
+                src: { mode: "url", transforms },
+                srcset: { allowRelative: true, mode: "srcset", transforms },
+              },
+            },
+          },
+        },
+      ),
+    ).toBe(
+      '<img src="https://proxy.example.com/?u=https%3A%2F%2Fcdn.com%2Fa.png" ' +
+        'srcset="https://proxy.example.com/?u=https%3A%2F%2Fcdn.com%2Fa.png 1x, /b.png 2x">',
+    );
+  });
+
+  it("rejects scripting schemes with a host in candidates", () => {
+    expect(
+      sanitizeHtml(
+        '<img srcset="javascript://example.com/%0aalert(1) 1x, https://example.com/a.png 2x">',
+        {
+          errorHandling: { attributeSrcsetValue: "dropCandidate" },
+          tags: {
+            img: {
+              attributes: {
+                srcset: { hosts: ["example.com"], mode: "srcset" },
+              },
+            },
+          },
+        },
+      ),
+    ).toBe('<img srcset="https://example.com/a.png 2x">');
+  });
+});
+
+describe("sanitizeHtml filters", () => {
+  it("discards elements rejected by their tag filter", () => {
+    const result = sanitizeHtml("<p></p><p> </p><p><br></p><p>Text</p>", {
+      errorHandling: { tagFilter: "discardElement" },
+      tags: {
+        br: {},
+        p: {
+          filter: ({ childCount, text }) =>
+            childCount > 0 || text.trim() !== "",
+        },
+      },
+    });
+    expect(result).toBe("<p><br></p><p>Text</p>");
+  });
+
+  it("evaluates filters after the children are sanitized", () => {
+    const result = sanitizeHtml(
+      '<a href="#"><script>x</script></a><a href="#">Link <b>text</b></a>',
+      {
+        errorHandling: { tag: "discardElement", tagFilter: "discardElement" },
+        tags: {
+          a: {
+            attributes: { href: { mode: "simple", value: "*" } },
+            filter: ({ text }) => text !== "",
+          },
+          b: {},
+        },
+      },
+    );
+    expect(result).toBe('<a href="#">Link <b>text</b></a>');
+  });
+
+  it("unwraps elements rejected by the global filter", () => {
+    const frames: unknown[] = [];
+    const result = sanitizeHtml(
+      '<div class="x"><span class="ad">Ad</span> content</div>',
+      {
+        errorHandling: { tagFilter: "unwrapElement" },
+        filter: (frame) => {
+          frames.push({ ...frame, text: frame.text });
+          return frame.attributes.class !== "ad";
+        },
+        tags: {
+          div: { attributes: { class: { mode: "simple", value: "*" } } },
+          span: { attributes: { class: { mode: "simple", value: "*" } } },
+        },
+      },
+    );
+
+    expect(result).toBe('<div class="x">Ad content</div>');
+    expect(frames).toEqual([
+      {
+        attributes: { class: "ad" },
+        childCount: 0,
+        tagName: "span",
+        text: "Ad",
+      },
+      {
+        attributes: { class: "x" },
+        childCount: 0,
+        tagName: "div",
+        text: "Ad content",
+      },
+    ]);
+  });
+
+  it("applies both the tag filter and the global filter", () => {
+    const result = sanitizeHtml("<i>a</i><i>b</i><i>c</i>", {
+      errorHandling: { tagFilter: "discardElement" },
+      filter: ({ text }) => text !== "a",
+      tags: { i: { filter: ({ text }) => text !== "b" } },
+    });
+    expect(result).toBe("<i>c</i>");
+  });
+
+  it("receives the transformed tag name and throws by default", () => {
+    expect(() =>
+      sanitizeHtml("<b>Bold</b>", {
+        filter: ({ tagName }) => tagName !== "strong",
+        tags: { b: { transform: { tagName: "strong" } }, strong: {} },
+      }),
+    ).toThrow(TagSanitizationError);
+  });
+});
+
+describe("sanitizeHtml text options", () => {
+  it("leaves text untouched without text options", () => {
+    const html = "<p>a\u0007b\u202Ec</p>";
+    expect(sanitizeHtml(html, { tags: { p: {} } })).toBe(html);
+  });
+
+  it("strips control characters", () => {
+    const result = sanitizeHtml(
+      "<p>a\u0007b\u0080c\td\ne\u000Bf\u009Fg\u0000h</p>",
+      { tags: { p: {} }, text: { stripControlCharacters: true } },
+    );
+    expect(result).toBe("<p>abc\td\nefgh</p>");
+  });
+
+  it("strips bidi override characters", () => {
+    const result = sanitizeHtml(
+      "<p>\u202Etxt.exe\u202C\u2067x\u2069\u200F</p>",
+      {
+        tags: { p: {} },
+        text: { stripBidiOverrides: true },
+      },
+    );
+    expect(result).toBe("<p>txt.exex\u200F</p>");
+  });
+
+  it("transforms text with the parent tag name", () => {
+    const calls: [string, string | undefined][] = [];
+    const result = sanitizeHtml("root <p>Hello <b>World</b></p>", {
+      tags: { b: {}, p: {} },
+      text: {
+        transform: (text, tagName) => {
+          calls.push([text, tagName]);
+          return tagName === "b" ? text.toUpperCase() : text;
+        },
+      },
+    });
+
+    expect(result).toBe("root <p>Hello <b>WORLD</b></p>");
+    expect(calls).toEqual([
+      ["root ", undefined],
+      ["Hello ", "p"],
+      ["World", "b"],
+    ]);
+  });
+
+  it("removes text left empty by the transform", () => {
+    const result = sanitizeHtml("<p>secret</p><p>public</p>", {
+      tags: { p: {} },
+      text: { transform: (text) => (text === "secret" ? "" : text) },
+    });
+    expect(result).toBe("<p></p><p>public</p>");
+  });
+
+  it("trims text past the maximum total length", () => {
+    const { html, violations } = sanitizeHtmlWithReport(
+      "<p>Hello <b>World</b></p><p>Again</p>",
+      {
+        errorHandling: { textTooLong: "trimExcess" },
+        tags: { b: {}, p: {} },
+        text: { maxLength: 8 },
+      },
+    );
+
+    expect(html).toBe("<p>Hello <b>Wo</b></p><p></p>");
+    expect(violations).toMatchObject([
+      {
+        action: "trimExcess",
+        kind: "textTooLong",
+        limit: 8,
+        path: "/p[0]/b[1]",
+      },
+      { action: "trimExcess", kind: "textTooLong", limit: 8, path: "/p[1]" },
+    ]);
+  });
+
+  it("throws when the maximum total length is exceeded by default", () => {
+    expect(() =>
+      sanitizeHtml("<p>Hello World</p>", {
+        tags: { p: {} },
+        text: { maxLength: 5 },
+      }),
+    ).toThrow(LimitSanitizationError);
+  });
+});
+
+describe("sanitizeHtml non-text tags", () => {
+  it("discards script-like tags instead of unwrapping them", () => {
+    expect(
+      sanitizeHtml(
+        "<p>a<script>alert(1)</script><style>p{}</style><b>b</b></p>",
+        { errorHandling: { tag: "unwrapElement" }, tags: { p: {} } },
+      ),
+    ).toBe("<p>ab</p>");
+  });
+
+  it("accepts a custom list of non-text tags", () => {
+    expect(
+      sanitizeHtml("<p><script>x</script><template>y</template></p>", {
+        errorHandling: { tag: "unwrapElement" },
+        nonTextTags: ["template"],
+        tags: { p: {} },
+      }),
+    ).toBe("<p>x</p>");
+  });
+
+  it("applies to the target of a tag transform", () => {
+    expect(
+      sanitizeHtml("<p><x>code</x></p>", {
+        errorHandling: { tag: "unwrapElement" },
+        tags: { p: {}, x: { transform: { tagName: "script" } } },
+      }),
+    ).toBe("<p></p>");
+  });
+
+  it("sanitizes the children of unwrapped elements", () => {
+    expect(
+      sanitizeHtml(
+        '<div><x><script>alert(1)</script><i onclick="y">z</i></x></div>',
+        {
+          errorHandling: {
+            attribute: "discardAttribute",
+            tag: "unwrapElement",
+          },
+          tags: { div: {}, i: {} },
+        },
+      ),
+    ).toBe("<div><i>z</i></div>");
+  });
+
+  it("discards allowed non-text tags unwrapped for an attribute", () => {
+    expect(
+      sanitizeHtml('<p><style data-x="1">p{color:red}</style></p>', {
+        errorHandling: { attribute: "unwrapElement", tag: "unwrapElement" },
+        tags: { p: {}, style: {} },
+      }),
+    ).toBe("<p></p>");
+  });
+
+  it("discards allowed non-text tags unwrapped for an attribute value", () => {
+    expect(
+      sanitizeHtml('<p><textarea name="x">secret</textarea></p>', {
+        errorHandling: {
+          attributeValue: "unwrapElement",
+          tag: "unwrapElement",
+        },
+        tags: {
+          p: {},
+          textarea: { attributes: { name: { mode: "simple", value: "y" } } },
+        },
+      }),
+    ).toBe("<p></p>");
+  });
+
+  it("discards allowed non-text tags unwrapped by a filter", () => {
+    expect(
+      sanitizeHtml("<p><style>p{color:red}</style></p>", {
+        errorHandling: { tag: "unwrapElement", tagFilter: "unwrapElement" },
+        tags: { p: {}, style: { filter: () => false } },
+      }),
+    ).toBe("<p></p>");
+  });
+
+  it("discards allowed non-text tags unwrapped for their content model", () => {
+    for (const tagContent of [
+      "unwrapElement",
+      "wrapInRequiredParent",
+    ] as const) {
+      expect(
+        sanitizeHtml("<p><style>p{color:red}</style></p>", {
+          errorHandling: { tag: "unwrapElement", tagContent },
+          tags: {
+            div: { allowedChildren: ["b"] },
+            p: {},
+            style: { allowedParents: ["div"] },
+          },
+        }),
+        tagContent,
+      ).toBe("<p></p>");
+    }
+  });
+
+  it("ignores inherited keys of the tag rules", () => {
+    expect(
+      sanitizeHtml("<constructor>x</constructor>", {
+        errorHandling: { tag: "unwrapElement" },
+        tags: {},
+      }),
+    ).toBe("x");
+  });
+});
+
+describe("sanitizeHtml escape modes", () => {
+  it("escapes disallowed tags and sanitizes their children", () => {
+    expect(
+      sanitizeHtml('<p><x-card id="1">Hi <b>you</b><i>!</i></x-card></p>', {
+        errorHandling: { tag: "escapeElement" },
+        tags: { b: {}, p: {} },
+      }),
+    ).toBe(
+      '<p>&lt;x-card id="1"&gt;Hi <b>you</b>&lt;i&gt;!&lt;/i&gt;&lt;/x-card&gt;</p>',
+    );
+  });
+
+  it("escapes script-like tags with their content", () => {
+    expect(
+      sanitizeHtml("<script>alert(1)</script>", {
+        errorHandling: { tag: "escapeElement" },
+        tags: {},
+      }),
+    ).toBe("&lt;script&gt;alert(1)&lt;/script&gt;");
+  });
+
+  it("recursively escapes disallowed tags with their children", () => {
+    expect(
+      sanitizeHtml('<p><x-card><b onclick="y">you</b></x-card></p>', {
+        errorHandling: { tag: "recursiveEscapeElement" },
+        tags: { b: {}, p: {} },
+      }),
+    ).toBe(
+      '<p>&lt;x-card&gt;&lt;b onclick="y"&gt;you&lt;/b&gt;&lt;/x-card&gt;</p>',
+    );
+  });
+
+  it("applies text options to escaped tags", () => {
+    expect(
+      sanitizeHtml("<q>hello</q><p>x</p>", {
+        errorHandling: { tag: "escapeElement", textTooLong: "trimExcess" },
+        tags: { p: {} },
+        text: { maxLength: 3 },
+      }),
+    ).toBe("&lt;q&gt;<p></p>");
+    expect(
+      sanitizeHtml("<p><q>a</q></p>", {
+        errorHandling: { tag: "recursiveEscapeElement" },
+        tags: { p: {} },
+        text: { transform: (text) => text.toUpperCase() },
+      }),
+    ).toBe("<p>&lt;Q&gt;A&lt;/Q&gt;</p>");
+  });
+
+  it("reports the escape action", () => {
+    expect(
+      sanitizeHtmlWithReport("<x>a</x>", {
+        errorHandling: { tag: "escapeElement" },
+        tags: {},
+      }).violations,
+    ).toEqual([
+      expect.objectContaining({ action: "escapeElement", kind: "tag" }),
+    ]);
+  });
+});
+
+describe("sanitizeHtml error handling overrides", () => {
+  const options = {
+    errorHandling: { attribute: "discardAttribute", tag: "unwrapElement" },
+    tags: {
+      form: {
+        attributes: {
+          action: { mode: "url", protocols: ["https"] },
+          name: {
+            errorHandling: { attributeValue: "discardAttribute" },
+            mode: "simple",
+            value: /^[a-z]+$/,
+          },
+        },
+        errorHandling: { attribute: "throwError" },
+      },
+      span: {},
+    },
+  } as const;
+
+  it("uses the tag error handling over the global one", () => {
+    expect(sanitizeHtml('<span onclick="x">a</span>', options)).toBe(
+      "<span>a</span>",
+    );
+    expect(() => sanitizeHtml('<form onclick="x">a</form>', options)).toThrow(
+      AttributeSanitizationError,
+    );
+  });
+
+  it("uses the attribute error handling over the tag one", () => {
+    expect(sanitizeHtml('<form name="A1">a</form>', options)).toBe(
+      "<form>a</form>",
+    );
+  });
+
+  it("inherits unset keys from the global error handling", () => {
+    expect(() =>
+      sanitizeHtml('<form action="http://x.com">a</form>', options),
+    ).toThrow(AttributeSanitizationError);
+    expect(() => sanitizeHtml("<form><x>a</x></form>", options)).not.toThrow();
+  });
+
+  it("applies the tag error handling to its limits", () => {
+    expect(
+      sanitizeHtml("<ul><li>1</li><li>2</li></ul>", {
+        tags: {
+          li: {},
+          ul: {
+            errorHandling: { tagChildren: "discardLasts" },
+            limits: { children: 1 },
+          },
+        },
+      }),
+    ).toBe("<ul><li>1</li></ul>");
+  });
+});
+
+describe("sanitizeHtml tag matchers", () => {
+  it("falls back to the wildcard tag rule", () => {
+    expect(
+      sanitizeHtml('<p title="t" id="i">a</p><x-y title="t">b</x-y>', {
+        errorHandling: { attribute: "discardAttribute" },
+        tags: {
+          "*": { attributes: { title: { mode: "simple", value: "*" } } },
+          p: {},
+        },
+      }),
+    ).toBe('<p>a</p><x-y title="t">b</x-y>');
+  });
+
+  it("matches glob tag keys and tag patterns", () => {
+    expect(
+      sanitizeHtml(
+        "<x-widget-card>a</x-widget-card><h3>b</h3><my-app-card>c</my-app-card><x-other>d</x-other>",
+        {
+          errorHandling: { tag: "unwrapElement" },
+          tagPatterns: [{ pattern: /^h[1-6]$/, rule: {} }],
+          tags: { "my-app-*": {}, "x-widget-*": {} },
+        },
+      ),
+    ).toBe(
+      "<x-widget-card>a</x-widget-card><h3>b</h3><my-app-card>c</my-app-card>d",
+    );
+  });
+
+  it("applies nesting limits of matched rules", () => {
+    expect(
+      sanitizeHtml("<x-a><x-b><x-c>deep</x-c></x-b></x-a>", {
+        errorHandling: { tagNesting: "discardElement" },
+        tags: { "x-*": { limits: { nesting: 1 } } },
+      }),
+    ).toBe("<x-a><x-b></x-b></x-a>");
+  });
+
+  it("matches the same with compiled options", () => {
+    const options = {
+      errorHandling: { tag: "discardElement" },
+      tagPatterns: [{ pattern: /^h[1-6]$/, rule: {} }],
+      tags: { "x-*": {} },
+    } as const;
+    const input = "<x-a>a</x-a><h1>b</h1><b>c</b>";
+
+    expect(createSanitizer(options)(input)).toBe(sanitizeHtml(input, options));
+  });
+});
+
+describe("sanitizeHtml attribute matchers", () => {
+  const options = {
+    errorHandling: {
+      attribute: "discardAttribute",
+      attributeValue: "discardAttribute",
+    },
+    tags: {
+      div: {
+        attributePatterns: [
+          { pattern: /^aria-[a-z]+$/, rule: { mode: "simple", value: "*" } },
+        ],
+        attributes: {
+          "data-*": { maxLength: 10, mode: "simple", value: "*" },
+          "data-id": { mode: "simple", value: /^\d+$/ },
+        },
+      },
+    },
+  } as const;
+
+  it("allows attributes matching globs and patterns only", () => {
+    expect(
+      sanitizeHtml(
+        '<div data-role="tab" aria-label="Tabs" title="t" onclick="x">a</div>',
+        options,
+      ),
+    ).toBe('<div data-role="tab" aria-label="Tabs">a</div>');
+  });
+
+  it("validates exact names against their own rule only", () => {
+    expect(sanitizeHtml('<div data-id="x1" data-x="x1">a</div>', options)).toBe(
+      '<div data-x="x1">a</div>',
+    );
+  });
+
+  it("ignores required on glob rules", () => {
+    expect(
+      sanitizeHtml("<div>a</div>", {
+        tags: {
+          div: {
+            attributes: {
+              "data-*": { mode: "simple", required: true, value: "*" },
+            },
+          },
+        },
+      }),
+    ).toBe("<div>a</div>");
+  });
+});
+
+describe("sanitizeHtml global attributes", () => {
+  const options = {
+    errorHandling: {
+      attribute: "discardAttribute",
+      attributeValue: "discardAttribute",
+      tag: "unwrapElement",
+    },
+    globalAttributes: {
+      dir: { mode: "simple", value: ["ltr", "rtl"] },
+      id: { mode: "simple", value: /^[a-z]+$/ },
+    },
+    tags: {
+      a: { attributes: { id: { mode: "simple", value: "*" } } },
+      p: {},
+    },
+  } as const;
+
+  it("allows global attributes on every allowed tag", () => {
+    expect(
+      sanitizeHtml(
+        '<p id="intro" dir="up" title="t">a</p><x id="y">b</x>',
+        options,
+      ),
+    ).toBe('<p id="intro">a</p>b');
+  });
+
+  it("lets tag rules take precedence", () => {
+    expect(sanitizeHtml('<a id="A1" dir="rtl">a</a>', options)).toBe(
+      '<a id="A1" dir="rtl">a</a>',
+    );
+    expect(sanitizeHtml('<p id="A1">a</p>', options)).toBe("<p>a</p>");
+  });
+
+  it("resolves tag globs before global rules, and tag wildcards after them", () => {
+    const precedence = {
+      errorHandling: { attributeValue: "discardAttribute" },
+      globalAttributes: {
+        "data-*": { mode: "simple", value: "*" },
+        title: { mode: "simple", value: "global" },
+      },
+      tags: {
+        div: {
+          attributes: { "data-user-*": { mode: "simple", value: /^\d+$/ } },
+        },
+        p: { attributes: { "*": { mode: "simple", value: "local" } } },
+      },
+    } as const;
+    const input =
+      '<div data-user-id="x" data-role="tab">a</div><p title="global">b</p><p title="local">c</p>';
+    const output =
+      '<div data-role="tab">a</div><p title="global">b</p><p>c</p>';
+
+    expect(sanitizeHtml(input, precedence)).toBe(output);
+    expect(createSanitizer(precedence)(input)).toBe(output);
+  });
+
+  it("matches the same with compiled options", () => {
+    const input = '<p id="intro" dir="rtl">a</p><a id="A1" dir="up">b</a>';
+    expect(createSanitizer(options)(input)).toBe(sanitizeHtml(input, options));
+  });
+});
+
+describe("sanitizeHtml document mode", () => {
+  const tags = {
+    body: {},
+    head: {},
+    html: { attributes: { lang: { mode: "simple", value: "*" } } },
+    p: {},
+    title: {},
+  } as const;
+
+  it("keeps the document structure and applies tag rules to it", () => {
+    expect(
+      sanitizeHtml(
+        '<!DOCTYPE html><html lang="en" x="1"><head><title>T</title><script>x</script></head><body><p>Hi</p></body></html>',
+        {
+          errorHandling: {
+            attribute: "discardAttribute",
+            tag: "discardElement",
+          },
+          mode: "document",
+          tags,
+        },
+      ),
+    ).toBe(
+      '<!DOCTYPE html><html lang="en"><head><title>T</title></head><body><p>Hi</p></body></html>',
+    );
+  });
+
+  it("adds the missing document structure", () => {
+    expect(sanitizeHtml("<p>Hi</p>", { mode: "document", tags })).toBe(
+      "<html><head></head><body><p>Hi</p></body></html>",
+    );
+  });
+
+  it("drops the document structure in fragment mode", () => {
+    expect(
+      sanitizeHtml("<html><body><p>Hi</p></body></html>", {
+        mode: "fragment",
+        tags,
+      }),
+    ).toBe("<p>Hi</p>");
+  });
+
+  it("discards everything outside the html element when enforcing its boundary", () => {
+    const input = "junk<html><body><p>Hi</p></body></html>\u0001more";
+
+    expect(
+      sanitizeHtml(input, {
+        enforceHtmlBoundary: true,
+        mode: "document",
+        tags,
+      }),
+    ).toBe("<html><head></head><body><p>Hi</p></body></html>");
+    expect(
+      sanitizeHtml(input, {
+        enforceHtmlBoundary: true,
+        errorHandling: { tag: "unwrapElement" },
+        tags,
+      }),
+    ).toBe("<p>Hi</p>");
+    expect(sanitizeHtml("a<p>b</p>", { enforceHtmlBoundary: true, tags })).toBe(
+      "a<p>b</p>",
+    );
+  });
+
+  it("finds the html element boundary among tags only", () => {
+    const options = {
+      enforceHtmlBoundary: true,
+      errorHandling: { attribute: "discardAttribute", tag: "unwrapElement" },
+      tags: { div: {}, p: {} },
+    } as const;
+
+    expect(sanitizeHtml('<div title="<html>x">a</div><p>b</p>', options)).toBe(
+      "<div>a</div><p>b</p>",
+    );
+    expect(
+      sanitizeHtml("<!-- <html> --><p>a</p><script>'<html>'</script>", options),
+    ).toBe("<p>a</p>");
+    expect(
+      sanitizeHtml("x<html><p>a</p><!-- </html> --></html>y", options),
+    ).toBe("<p>a</p>");
+  });
+});
+
+describe("sanitizeHtml context element", () => {
+  it("parses the fragment as the content of the context element", () => {
+    const options = {
+      errorHandling: { tag: "unwrapElement" },
+      tags: { div: {}, option: {}, tbody: {}, td: {}, tr: {} },
+    } as const;
+
+    expect(
+      sanitizeHtml("<tr><td>a</td></tr>", {
+        ...options,
+        contextElement: { tagName: "table" },
+      }),
+    ).toBe("<tbody><tr><td>a</td></tr></tbody>");
+    expect(
+      sanitizeHtml("<option>a</option><div>b</div>", {
+        ...options,
+        contextElement: { tagName: "select" },
+      }),
+    ).toBe("<option>a</option>b");
+  });
+
+  it("parses foreign content in svg and math contexts", () => {
+    expect(
+      sanitizeHtml('<circle r="1"/>', {
+        contextElement: { attributes: { width: "10" }, tagName: "svg" },
+        tags: { circle: { attributes: { r: { mode: "simple", value: "*" } } } },
+      }),
+    ).toBe('<circle r="1"></circle>');
+  });
+
+  it("counts the content towards the nesting limit of the context element", () => {
+    expect(
+      sanitizeHtml("<li>a<ul><li>b</li></ul></li>", {
+        contextElement: { tagName: "ul" },
+        errorHandling: { tagNesting: "discardElement" },
+        tags: { li: {}, ul: { limits: { nesting: 2 } } },
+      }),
+    ).toBe("<li>a<ul></ul></li>");
+  });
+
+  it("is ignored in document mode", () => {
+    expect(
+      sanitizeHtml("<p>a</p>", {
+        contextElement: { tagName: "table" },
+        mode: "document",
+        tags: { body: {}, head: {}, html: {}, p: {} },
+      }),
+    ).toBe("<html><head></head><body><p>a</p></body></html>");
+  });
+});
+
+describe("sanitizeHtml content model", () => {
+  const tags = {
+    a: { forbiddenDescendants: ["button"] },
+    b: {},
+    button: {},
+    li: { allowedParents: ["ol", "ul"] },
+    ol: { allowedParents: ["section"] },
+    p: {},
+    section: {},
+    ul: { allowedChildren: ["li"] },
+  } as const;
+  const input =
+    "<li>x</li><ul><p>y</p><li>z</li></ul><a><b>1<button>2</button></b></a>";
+
+  it("discards elements violating the content model", () => {
+    expect(
+      sanitizeHtml(input, {
+        errorHandling: { tagContent: "discardElement" },
+        tags,
+      }),
+    ).toBe("<ul><li>z</li></ul><a><b>1</b></a>");
+  });
+
+  it("unwraps elements violating the content model", () => {
+    expect(
+      sanitizeHtml(input, {
+        errorHandling: { tagContent: "unwrapElement" },
+        tags,
+      }),
+    ).toBe("x<ul>y<li>z</li></ul><a><b>12</b></a>");
+  });
+
+  it("wraps elements in the first required parent allowed at their position", () => {
+    expect(
+      sanitizeHtml(input, {
+        errorHandling: { tagContent: "wrapInRequiredParent" },
+        tags,
+      }),
+    ).toBe("<ul><li>x</li></ul><ul>y<li>z</li></ul><a><b>12</b></a>");
+  });
+
+  it("does not walk the wrapper again when its tag is transformed", () => {
+    expect(
+      sanitizeHtml("<li>x</li><p>y</p>", {
+        errorHandling: { tagContent: "wrapInRequiredParent" },
+        tags: {
+          li: { allowedParents: ["ul"] },
+          ol: {},
+          p: {},
+          ul: { transform: { tagName: "ol" } },
+        },
+      }),
+    ).toBe("<ul><li>x</li></ul><p>y</p>");
+  });
+
+  it("does not wrap in parents with required attributes", () => {
+    expect(
+      sanitizeHtml("<li>x</li>", {
+        errorHandling: {
+          tag: "unwrapElement",
+          tagContent: "wrapInRequiredParent",
+        },
+        globalAttributes: {
+          id: { mode: "simple", required: true, value: "*" },
+        },
+        tags: { li: { allowedParents: ["ul"] }, ul: {} },
+      }),
+    ).toBe("x");
+    expect(
+      sanitizeHtml("<li>x</li>", {
+        errorHandling: { tagContent: "wrapInRequiredParent" },
+        tags: {
+          li: { allowedParents: ["ol", "ul"] },
+          ol: {
+            attributes: {
+              start: { mode: "simple", required: true, value: "*" },
+            },
+          },
+          ul: {},
+        },
+      }),
+    ).toBe("<ul><li>x</li></ul>");
+  });
+
+  it("does not wrap past the nesting limits of the ancestors", () => {
+    expect(
+      sanitizeHtml("<div><li>x</li></div>", {
+        errorHandling: {
+          tag: "unwrapElement",
+          tagContent: "wrapInRequiredParent",
+        },
+        tags: {
+          div: { limits: { nesting: 1 } },
+          li: { allowedParents: ["ul"] },
+          ul: {},
+        },
+      }),
+    ).toBe("<div>x</div>");
+  });
+
+  it("runs the filters on the wrapper", () => {
+    expect(
+      sanitizeHtml("<li>x</li><p>y</p>", {
+        errorHandling: {
+          tagContent: "wrapInRequiredParent",
+          tagFilter: "discardElement",
+        },
+        filter: ({ tagName }) => tagName !== "ul",
+        tags: { li: { allowedParents: ["ul"] }, p: {}, ul: {} },
+      }),
+    ).toBe("<p>y</p>");
+    expect(
+      sanitizeHtml("<li>x</li>", {
+        errorHandling: {
+          tagContent: "wrapInRequiredParent",
+          tagFilter: "discardElement",
+        },
+        tags: {
+          li: { allowedParents: ["ul"] },
+          ul: { filter: ({ childCount }) => childCount > 1 },
+        },
+      }),
+    ).toBe("");
+  });
+
+  it("checks the parent against the context element", () => {
+    expect(
+      sanitizeHtml("<li>x</li>", {
+        contextElement: { tagName: "ol" },
+        tags,
+      }),
+    ).toBe("<li>x</li>");
+  });
+
+  it("throws by default", () => {
+    expect(() => sanitizeHtml("<li>x</li>", { tags })).toThrow(
+      TagSanitizationError,
+    );
+  });
+
+  it("reports the violated rule", () => {
+    expect(
+      sanitizeHtmlWithReport(
+        "<section><ul><li>x</li></ul></section><li>y</li>",
+        {
+          errorHandling: { tagContent: "wrapInRequiredParent" },
+          tags,
+        },
+      ),
+    ).toEqual({
+      html: "<section><ul><li>x</li></ul></section><ul><li>y</li></ul>",
+      violations: [
+        expect.objectContaining({
+          action: "wrapInRequiredParent",
+          kind: "tagContent",
+          message: "Tag li is not allowed at the root",
+        }),
+      ],
+    });
+  });
+});
+
+describe("sanitizeHtml embed sources", () => {
+  const tags = {
+    iframe: {
+      attributes: { src: { mode: "simple", value: "*" } },
+      embed: { domains: ["youtube-nocookie.com"], hosts: ["player.vimeo.com"] },
+    },
+    object: {
+      attributes: { data: { mode: "simple", value: "*" } },
+      embed: { hosts: ["*.example.com"] },
+    },
+  } as const;
+
+  it("keeps sources from allowed hosts and domains", () => {
+    const input =
+      '<iframe src="https://www.youtube-nocookie.com/embed/x"></iframe>' +
+      '<iframe src="https://player.vimeo.com/video/1"></iframe>' +
+      '<object data="https://cdn.example.com/x.swf"></object>';
+
+    expect(sanitizeHtml(input, { tags })).toBe(input);
+  });
+
+  it("applies the error handling to other sources", () => {
+    expect(
+      sanitizeHtml(
+        '<iframe src="https://vimeo.com/1"></iframe>' +
+          '<iframe src="javascript:alert(1)"></iframe>' +
+          '<object data="https://example.com/x.swf"></object>',
+        { errorHandling: { embedSource: "discardAttribute" }, tags },
+      ),
+    ).toBe("<iframe></iframe><iframe></iframe><object></object>");
+  });
+
+  it("discards elements with disallowed sources", () => {
+    expect(
+      sanitizeHtml('<p><iframe src="/x"></iframe></p>', {
+        errorHandling: { embedSource: "discardElement" },
+        tags: { ...tags, p: {} },
+      }),
+    ).toBe("<p></p>");
+  });
+
+  it("reads the source from the attribute set by the policy", () => {
+    expect(
+      sanitizeHtml(
+        '<embed data-src="https://evil.com" src="https://evil.com">',
+        {
+          errorHandling: { embedSource: "discardAttribute" },
+          tags: {
+            embed: {
+              attributes: { "*": { mode: "simple", value: "*" } },
+              embed: { attribute: "data-src" },
+            },
+          },
+        },
+      ),
+    ).toBe('<embed src="https://evil.com">');
+  });
+
+  it("throws by default", () => {
+    expect(() =>
+      sanitizeHtml('<iframe src="https://evil.com"></iframe>', { tags }),
+    ).toThrow(AttributeSanitizationError);
+  });
+
+  it("reports the violated rule", () => {
+    expect(
+      sanitizeHtmlWithReport('<iframe src="https://evil.com"></iframe>', {
+        errorHandling: { embedSource: "discardElement" },
+        tags,
+      }).violations,
+    ).toEqual([
+      expect.objectContaining({
+        action: "discardElement",
+        attribute: "src",
+        kind: "embedSource",
+        value: "https://evil.com",
+      }),
+    ]);
+  });
+});
+
+describe("sanitizeHtml script policies", () => {
+  const tags = {
+    script: {
+      attributes: {
+        crossorigin: { mode: "simple", value: ["anonymous"] },
+        integrity: { mode: "simple", value: /^sha(?:256|384|512)-/ },
+        src: { mode: "simple", value: "*" },
+      },
+      script: { domains: ["example.com"], hosts: ["cdn.jsdelivr.net"] },
+    },
+  } as const;
+
+  it("keeps scripts from allowed hosts and strips inline code", () => {
+    expect(
+      sanitizeHtml(
+        '<script src="https://cdn.jsdelivr.net/w.js">alert(1)</script>' +
+          '<script src="https://widgets.example.com/w.js"></script>',
+        { tags },
+      ),
+    ).toBe(
+      '<script src="https://cdn.jsdelivr.net/w.js"></script>' +
+        '<script src="https://widgets.example.com/w.js"></script>',
+    );
+  });
+
+  it("discards inline scripts and scripts from other hosts", () => {
+    expect(
+      sanitizeHtml(
+        "<p>a</p><script>alert(1)</script>" +
+          '<script src="https://evil.com/w.js"></script>' +
+          '<script src="data:text/javascript,alert(1)"></script><p>b</p>',
+        {
+          errorHandling: { scriptSource: "discardElement" },
+          tags: { ...tags, p: {} },
+        },
+      ),
+    ).toBe("<p>a</p><p>b</p>");
+  });
+
+  it("requires the integrity and crossorigin attributes when enabled", () => {
+    const options = {
+      errorHandling: {
+        attributeValue: "discardAttribute",
+        scriptSource: "discardElement",
+      },
+      tags: {
+        script: {
+          ...tags.script,
+          script: {
+            hosts: ["cdn.jsdelivr.net"],
+            requireCrossOrigin: true,
+            requireIntegrity: true,
+          },
+        },
+      },
+    } as const;
+
+    expect(
+      sanitizeHtml(
+        '<script src="https://cdn.jsdelivr.net/a.js" integrity="sha384-x" crossorigin="anonymous"></script>' +
+          '<script src="https://cdn.jsdelivr.net/b.js" crossorigin="anonymous"></script>' +
+          '<script src="https://cdn.jsdelivr.net/c.js" integrity="md5-x" crossorigin="anonymous"></script>' +
+          '<script src="https://cdn.jsdelivr.net/d.js" integrity="sha384-x"></script>',
+        options,
+      ),
+    ).toBe(
+      '<script src="https://cdn.jsdelivr.net/a.js" integrity="sha384-x" crossorigin="anonymous"></script>',
+    );
+  });
+
+  it("throws by default", () => {
+    expect(() => sanitizeHtml("<script>alert(1)</script>", { tags })).toThrow(
+      TagSanitizationError,
+    );
+  });
+
+  it("reports the violated rule", () => {
+    expect(
+      sanitizeHtmlWithReport('<script src="https://evil.com/w.js"></script>', {
+        errorHandling: { scriptSource: "discardElement" },
+        tags,
+      }).violations,
+    ).toEqual([
+      expect.objectContaining({
+        action: "discardElement",
+        kind: "scriptSource",
+        message: "Script source https://evil.com/w.js is not allowed",
+        value: "https://evil.com/w.js",
+      }),
+    ]);
+  });
+});
+
+describe("sanitizeHtmlWithReport", () => {
+  it("returns the sanitized html with every violation acted on", () => {
+    const html =
+      '<div><p class="lead huge" onclick="x()">Hi<script>alert(1)</script></p></div>';
+    const result = sanitizeHtmlWithReport(html, {
+      errorHandling: {
+        attribute: "discardAttribute",
+        attributeSetValue: "dropValue",
+        tag: "discardElement",
+      },
+      tags: {
+        div: {},
+        p: {
+          attributes: {
+            class: { delimiter: " ", mode: "set", values: ["lead"] },
+          },
+        },
+      },
+    });
+
+    expect(result.html).toBe('<div><p class="lead">Hi</p></div>');
+    expect(result.violations).toEqual([
+      {
+        action: "dropValue",
+        attribute: "class",
+        kind: "attributeSetValue",
+        message: "Value huge for attribute class is not allowed",
+        path: "/div[0]/p[0]",
+        tag: "p",
+        value: "huge",
+      },
+      {
+        action: "discardAttribute",
+        attribute: "onclick",
+        kind: "attribute",
+        message: "Attribute onclick is not allowed",
+        path: "/div[0]/p[0]",
+        tag: "p",
+        value: "x()",
+      },
+      {
+        action: "discardElement",
+        kind: "tag",
+        message: "Tag script is not allowed",
+        path: "/div[0]/p[0]/script[1]",
+        tag: "script",
+      },
+    ]);
+  });
+
+  it("reports the original rule kind when escalating to a broader action", () => {
+    const result = sanitizeHtmlWithReport(
+      '<a href="javascript:alert(1)">Link</a>',
+      {
+        errorHandling: { attributeUrlValue: "discardAttribute" },
+        tags: {
+          a: { attributes: { href: { mode: "url", protocols: ["https"] } } },
+        },
+      },
+    );
+
+    expect(result.html).toBe("<a>Link</a>");
+    expect(result.violations).toMatchObject([
+      {
+        action: "discardAttribute",
+        attribute: "href",
+        kind: "attributeUrlValue",
+        value: "javascript:alert(1)",
+      },
+    ]);
+  });
+
+  it("reports root level violations", () => {
+    const result = sanitizeHtmlWithReport("<p>1</p><p>2</p>", {
+      errorHandling: { tagChildren: "discardLasts" },
+      tags: { p: {} },
+      topLevelLimits: { children: 1 },
+    });
+
+    expect(result.html).toBe("<p>1</p>");
+    expect(result.violations).toMatchObject([
+      { action: "discardLasts", kind: "tagChildren", path: "/" },
+    ]);
+  });
+
+  it("still invokes onViolation and returns no violations for clean input", () => {
+    const onViolation = vi.fn();
+
+    expect(
+      sanitizeHtmlWithReport("<p>ok</p><b>x</b>", {
+        errorHandling: { tag: "unwrapElement" },
+        onViolation,
+        tags: { p: {} },
+      }),
+    ).toMatchObject({ html: "<p>ok</p>x", violations: [{ tag: "b" }] });
+    expect(onViolation).toHaveBeenCalledTimes(1);
+
+    expect(sanitizeHtmlWithReport("<p>ok</p>", { tags: { p: {} } })).toEqual({
+      html: "<p>ok</p>",
+      violations: [],
+    });
+  });
+});
+
+describe("createSanitizer", () => {
+  const options = {
+    errorHandling: {
+      attribute: "discardAttribute",
+      attributeSetValue: "dropValue",
+      tag: "unwrapElement",
+      tagNesting: "discardElement",
+    },
+    tags: {
+      a: { attributes: { href: { mode: "url", protocols: ["https"] } } },
+      div: {
+        attributes: {
+          class: { delimiter: " ", mode: "set", values: ["row", "col"] },
+        },
+        limits: { nesting: 1 },
+      },
+      span: {},
+    },
+  } as const;
+
+  it("produces the same output as sanitizeHtml", () => {
+    const sanitize = createSanitizer(options);
+    const inputs = [
+      "",
+      '<div class="row grid col" onclick="x">A <a href="https://x.com">link</a></div>',
+      "<div><span>ok</span><div>nested</div></div>",
+      '<p>unwrapped <constructor class="row">x</constructor></p>',
+    ];
+
+    for (const input of inputs) {
+      expect(sanitize(input), input).toBe(sanitizeHtml(input, options));
+    }
+  });
+
+  it("can be reused across inputs", () => {
+    const sanitize = createSanitizer(options);
+    expect(sanitize("<div><span>a</span></div>")).toBe(
+      "<div><span>a</span></div>",
+    );
+    expect(sanitize("<div><span><span>b</span></span></div>")).toBe(
+      "<div><span></span></div>",
+    );
+    expect(sanitize("<div><span>c</span></div>")).toBe(
+      "<div><span>c</span></div>",
+    );
+  });
+
+  it("reports source locations when errors are thrown", () => {
+    const sanitize = createSanitizer({ tags: { div: {} } });
+    expect(() => sanitize("<div>\n  <iframe></iframe></div>")).toThrow(
+      expect.objectContaining({
+        code: "TAG_NOT_ALLOWED",
+        location: { column: 3, line: 2, offset: 8 },
+      }),
+    );
+  });
+
+  it("invokes onViolation", () => {
+    const onViolation = vi.fn();
+    const sanitize = createSanitizer({ ...options, onViolation });
+    sanitize('<div class="grid">x</div>');
+    expect(onViolation).toHaveBeenCalledWith(
+      expect.objectContaining({ action: "dropValue", value: "grid" }),
+    );
+  });
+});
@@ -0,0 +1,330 @@
+import { describe, expect, it } from "vitest";
+
+import type { SanitizerOptionsOverride } from "../src/types/merge";
+import type { SanitizerOptions } from "../src/types/sanitizer";
+
+import { sanitizeHtml } from "../src";
+import { mergeSanitizerOptions, mergeTagRules } from "../src/lib/merge";
+
+const base: SanitizerOptions = {
+  errorHandling: { attribute: "discardAttribute", tag: "unwrapElement" },
+  preserveComments: false,
+  tags: {
+    a: {
+      attributes: {
+        href: { mode: "url", protocols: ["https"] },
+        target: { mode: "simple", value: ["_blank"] },
+      },
+      limits: { nesting: 2 },
+    },
+    div: {
+      attributes: {
+        class: { delimiter: " ", mode: "set", values: ["row", "col"] },
+        style: {
+          entrySeparator: ";",
+          keyValueSeparator: ":",
+          mode: "record",
+          values: { color: "*", margin: "*" },
+        },
+      },
+    },
+    span: {
+      attributes: {
+        style: { mode: "style", properties: { color: "*" } },
+      },
+    },
+  },
+  topLevelLimits: { children: 10, nesting: 5 },
+};
+
+describe("mergeSanitizerOptions", () => {
+  it("returns the base options when there are no overrides", () => {
+    expect(mergeSanitizerOptions(base)).toEqual(base);
+  });
+
+  it("merges error handling and top level limits per key", () => {
+    const result = mergeSanitizerOptions(base, {
+      errorHandling: { attribute: "throwError" },
+      topLevelLimits: { children: 50 },
+    });
+
+    expect(result.errorHandling).toEqual({
+      attribute: "throwError",
+      tag: "unwrapElement",
+    });
+    expect(result.topLevelLimits).toEqual({ children: 50, nesting: 5 });
+  });
+
+  it("merges text options per key", () => {
+    const transform = (text: string) => text.trim();
+    const result = mergeSanitizerOptions(
+      { text: { maxLength: 100, transform } },
+      { text: { stripControlCharacters: true } },
+    );
+
+    expect(result.text).toEqual({
+      maxLength: 100,
+      stripControlCharacters: true,
+      transform,
+    });
+  });
+
+  it("merges global attributes like tag attributes", () => {
+    const result = mergeSanitizerOptions(
+      {
+        globalAttributes: {
+          class: { delimiter: " ", mode: "set", values: ["a"] },
+          id: { mode: "simple", value: "*" },
+        },
+      },
+      {
+        globalAttributes: {
+          class: { mode: "set", values: ["b"] },
+          id: null,
+          lang: { mode: "simple", value: "*" },
+        },
+      },
+    );
+
+    expect(result.globalAttributes).toEqual({
+      class: { delimiter: " ", mode: "set", values: ["b"] },
+      lang: { mode: "simple", value: "*" },
+    });
+  });
+
+  it("replaces other options", () => {
+    const result = mergeSanitizerOptions(base, { preserveComments: true });
+    expect(result.preserveComments).toBe(true);
+  });
+
+  it("adds and removes tags", () => {
+    const result = mergeSanitizerOptions(base, { tags: { a: null, p: {} } });
+    expect(Object.keys(result.tags ?? {})).toEqual(["div", "span", "p"]);
+  });
+
+  it("treats inherited and __proto__ keys of overrides as plain entries", () => {
+    const overrides = JSON.parse(
+      '{"tags": {"__proto__": {}, "constructor": {}, "toString": {"limits": {"nesting": 1}}}}',
+    ) as SanitizerOptionsOverride;
+    const result = mergeSanitizerOptions(base, overrides);
+
+    expect(Object.getPrototypeOf(result.tags)).toBeNull();
+    expect(Object.keys(result.tags ?? {})).toEqual([
+      "a",
+      "div",
+      "span",
+      "__proto__",
+      "constructor",
+      "toString",
+    ]);
+    expect(result.tags?.["constructor"]).toEqual({});
+    expect(result.tags?.["toString"]).toEqual({ limits: { nesting: 1 } });
+  });
+
+  it("merges record values per key and removes null keys", () => {
+    const result = mergeSanitizerOptions(base, {
+      tags: {
+        div: {
+          attributes: {
+            style: {
+              mode: "record",
+              values: { margin: null, padding: /^\d+px$/ },
+            },
+          },
+        },
+      },
+    });
+
+    expect(result.tags?.div.attributes?.style).toEqual({
+      entrySeparator: ";",
+      keyValueSeparator: ":",
+      mode: "record",
+      values: { color: "*", padding: /^\d+px$/ },
+    });
+  });
+
+  it("merges style properties per key", () => {
+    const result = mergeSanitizerOptions(base, {
+      tags: {
+        span: {
+          attributes: {
+            style: {
+              allowImportant: true,
+              mode: "style",
+              properties: { "font-weight": ["bold"] },
+            },
+          },
+        },
+      },
+    });
+
+    expect(result.tags?.span.attributes?.style).toEqual({
+      allowImportant: true,
+      mode: "style",
+      properties: { color: "*", "font-weight": ["bold"] },
+    });
+  });
+
+  it("replaces set values arrays and keeps other fields", () => {
+    const result = mergeSanitizerOptions(base, {
+      tags: {
+        div: {
+          attributes: {
+            class: { maxEntries: 2, mode: "set", values: ["card"] },
+          },
+        },
+      },
+    });
+
+    expect(result.tags?.div.attributes?.class).toEqual({
+      delimiter: " ",
+      maxEntries: 2,
+      mode: "set",
+      values: ["card"],
+    });
+  });
+
+  it("replaces the allowed classes as in the documented example", () => {
+    const override = {
+      tags: {
+        div: {
+          attributes: {
+            class: { delimiter: " ", mode: "set", values: ["card"] },
+          },
+        },
+        iframe: null,
+        span: {
+          attributes: {
+            style: { mode: "style", properties: { "font-size": "*" } },
+          },
+        },
+      },
+    } as const;
+
+    const result = mergeSanitizerOptions(
+      { tags: { div: {}, iframe: {} } },
+      override,
+    );
+    expect(result.tags).toEqual({
+      div: {
+        attributes: {
+          class: { delimiter: " ", mode: "set", values: ["card"] },
+        },
+      },
+      span: {
+        attributes: {
+          style: { mode: "style", properties: { "font-size": "*" } },
+        },
+      },
+    });
+    expect(
+      sanitizeHtml('<div class="card row">a</div>', {
+        errorHandling: { attributeSetValue: "dropValue" },
+        ...result,
+      }),
+    ).toBe('<div class="card">a</div>');
+  });
+
+  it("throws on incomplete rules replacing their base", () => {
+    expect(() =>
+      mergeSanitizerOptions(
+        { tags: { div: {} } },
+        {
+          tags: {
+            div: { attributes: { class: { mode: "set", values: ["card"] } } },
+          },
+        },
+      ),
+    ).toThrow(
+      "Attribute rule of mode set without a base rule of the same mode is missing its delimiter",
+    );
+    expect(() =>
+      mergeSanitizerOptions(base, {
+        tags: { a: { attributes: { href: { mode: "simple" } } } },
+      }),
+    ).toThrow(/mode simple .* missing its value/);
+    expect(() =>
+      mergeTagRules(base.tags!, {
+        span: { attributes: { style: { mode: "record", values: {} } } },
+      }),
+    ).toThrow(/missing its entrySeparator/);
+  });
+
+  it("replaces attribute rules whose mode changes", () => {
+    const result = mergeSanitizerOptions(base, {
+      tags: {
+        a: {
+          attributes: {
+            href: { mode: "simple", value: /^\// },
+            target: null,
+          },
+        },
+      },
+    });
+
+    expect(result.tags?.a).toEqual({
+      attributes: { href: { mode: "simple", value: /^\// } },
+      limits: { nesting: 2 },
+    });
+  });
+
+  it("applies overrides in order without mutating the inputs", () => {
+    const snapshot = structuredClone(base);
+    const override = {
+      tags: { a: { attributes: { href: { hosts: ["a.com"], mode: "url" } } } },
+    } as const;
+
+    const result = mergeSanitizerOptions(base, override, {
+      tags: { a: { attributes: { href: { hosts: ["b.com"], mode: "url" } } } },
+    });
+
+    expect(result.tags?.a.attributes?.href).toEqual({
+      hosts: ["b.com"],
+      mode: "url",
+      protocols: ["https"],
+    });
+    expect(base).toEqual(snapshot);
+    expect(override.tags.a.attributes.href.hosts).toEqual(["a.com"]);
+  });
+});
+
+describe("mergeTagRules", () => {
+  it("merges tag error handling per key", () => {
+    const result = mergeTagRules(
+      {
+        form: { errorHandling: { attribute: "throwError", tag: "throwError" } },
+      },
+      { form: { errorHandling: { attribute: "discardAttribute" } } },
+    );
+
+    expect(result.form.errorHandling).toEqual({
+      attribute: "discardAttribute",
+      tag: "throwError",
+    });
+  });
+
+  it("creates attribute rules missing from the base", () => {
+    const result = mergeTagRules(
+      { b: {} },
+      {
+        b: {
+          attributes: {
+            style: {
+              entrySeparator: ";",
+              keyValueSeparator: ":",
+              mode: "record",
+              values: { color: "*", margin: null },
+            },
+          },
+        },
+      },
+    );
+
+    expect(result.b.attributes?.style).toEqual({
+      entrySeparator: ";",
+      keyValueSeparator: ":",
+      mode: "record",
+      values: { color: "*" },
+    });
+  });
+});
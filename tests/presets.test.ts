@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+
+import { sanitizeHtml } from "../src";
+import { extendPreset, presets } from "../src/lib/presets";
+
+const errorHandling = {
+  attribute: "discardAttribute",
+  attributeUrlValue: "discardAttribute",
+  attributeValue: "discardAttribute",
+  tag: "unwrapElement",
+} as const;
+
+describe("presets", () => {
+  it("none keeps only text", () => {
+    const result = sanitizeHtml("<p>Hello</p> <b>World</b>", {
+      errorHandling,
+      tags: presets.none,
+    });
+    expect(result).toBe("Hello World");
+  });
+
+  it("basicFormatting keeps inline formatting without attributes", () => {
+    const result = sanitizeHtml(
+      '<p class="x">Hello <b>bold</b> <a href="https://example.com">link</a></p>',
+      { errorHandling, tags: presets.basicFormatting },
+    );
+    expect(result).toBe("<p>Hello <b>bold</b> link</p>");
+  });
+
+  it("commentsSafe keeps safe links and lists", () => {
+    const result = sanitizeHtml(
+      '<ul><li><a href="https://example.com/page?x=1" target="_blank">ok</a></li><li><a href="javascript:alert(1)">bad</a></li></ul><h1>Title</h1>',
+      { errorHandling, tags: presets.commentsSafe },
+    );
+    expect(result).toBe(
+      '<ul><li><a href="https://example.com/page?x=1">ok</a></li><li><a>bad</a></li></ul>Title',
+    );
+  });
+
+  it("richText keeps the classic allowlist and link attributes", () => {
+    const result = sanitizeHtml(
+      '<h2>Title</h2><table><tbody><tr><td><a href="/relative" name="n" target="_top">x</a></td></tr></tbody></table><img src="x.png">',
+      { errorHandling, tags: presets.richText },
+    );
+    expect(result).toBe(
+      '<h2>Title</h2><table><tbody><tr><td><a href="/relative" name="n">x</a></td></tr></tbody></table>',
+    );
+  });
+
+  it("safe links accept relative, protocol-relative and allowed schemes only", () => {
+    const hrefs = {
+      "//cdn.example.com/x": true,
+      "#anchor": true,
+      "data:text/html,x": false,
+      "ftp://example.com": true,
+      "javascript://example.com/%0aalert(1)": false,
+      " javascript:alert(1)": false,
+      "java\tscript:alert(1)": false,
+      "JAVASCRIPT:alert(1)": false,
+      "mailto:me@example.com": true,
+      "page?a=b:c": true,
+      "tel:+123": true,
+    };
+
+    for (const [href, allowed] of Object.entries(hrefs)) {
+      const result = sanitizeHtml(`<a href="${href}">x</a>`, {
+        errorHandling,
+        tags: presets.richText,
+      });
+      expect(result, href).toBe(
+        allowed ? `<a href="${href}">x</a>` : "<a>x</a>",
+      );
+    }
+  });
+});
+
+describe("extendPreset", () => {
+  it("adds, overrides and removes tags without mutating the preset", () => {
+    const tags = extendPreset(presets.basicFormatting, {
+      b: null,
+      p: {
+        attributes: { class: { mode: "simple", value: "lead" } },
+        limits: { children: 2 },
+      },
+      span: {},
+    });
+
+    expect(tags.b).toBeUndefined();
+    expect(tags.span).toEqual({});
+    expect(tags.p).toEqual({
+      attributes: { class: { mode: "simple", value: "lead" } },
+      limits: { children: 2 },
+    });
+    expect(presets.basicFormatting.b).toEqual({});
+    expect(presets.basicFormatting.p).toEqual({});
+  });
+
+  it("merges attributes and limits, removing attributes set to null", () => {
+    const tags = extendPreset(presets.commentsSafe, {
+      a: {
+        attributes: {
+          rel: { mode: "simple", value: "nofollow" },
+          title: null,
+        },
+      },
+      ul: { limits: { children: 5 } },
+    });
+
+    expect(Object.keys(tags.a.attributes ?? {})).toEqual(["href", "rel"]);
+    expect(tags.ul.limits).toEqual({ children: 5, nesting: 6 });
+    expect(presets.commentsSafe.a.attributes?.title).toBeDefined();
+  });
+
+  it("applies overrides in order", () => {
+    const tags = extendPreset(
+      presets.none,
+      { div: { limits: { children: 1 } } },
+      { div: { limits: { nesting: 2 } } },
+      { span: {} },
+      { span: null },
+    );
+
+    expect(tags).toEqual({ div: { limits: { children: 1, nesting: 2 } } });
+  });
+});
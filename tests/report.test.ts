@@ -0,0 +1,120 @@
+import type { Htmlparser2TreeAdapterMap } from "parse5-htmlparser2-tree-adapter";
+
+import { parseFragment } from "parse5";
+import { adapter } from "parse5-htmlparser2-tree-adapter";
+import { describe, expect, it, vi } from "vitest";
+
+import type { SanitizationViolation } from "../src/types/report";
+
+import {
+  getNodePath,
+  reportViolation,
+  withViolationReporter,
+} from "../src/lib/report";
+
+const context = {
+  attribute: "onclick",
+  kind: "attribute" as const,
+  message: "Attribute onclick is not allowed",
+  value: "alert(1)",
+};
+
+describe("getNodePath", () => {
+  it("returns the index of each element among its parent's children", () => {
+    const frag: Htmlparser2TreeAdapterMap["documentFragment"] = parseFragment(
+      "<div>Text<p>One</p><!-- c --><p><b>Two</b></p></div>",
+      { treeAdapter: adapter },
+    );
+    const div = frag.children[0] as Htmlparser2TreeAdapterMap["element"];
+    const p = div.children[3] as Htmlparser2TreeAdapterMap["element"];
+    const b = p.children[0] as Htmlparser2TreeAdapterMap["element"];
+
+    expect(getNodePath(div)).toBe("/div[0]");
+    expect(getNodePath(p)).toBe("/div[0]/p[3]");
+    expect(getNodePath(b)).toBe("/div[0]/p[3]/b[0]");
+  });
+
+  it("returns '/' for the root", () => {
+    const frag: Htmlparser2TreeAdapterMap["documentFragment"] = parseFragment(
+      "<div></div>",
+      { treeAdapter: adapter },
+    );
+
+    expect(getNodePath(frag)).toBe("/");
+  });
+});
+
+describe("reportViolation", () => {
+  it("does nothing without an active reporter", () => {
+    const frag: Htmlparser2TreeAdapterMap["documentFragment"] = parseFragment(
+      "<div></div>",
+      { treeAdapter: adapter },
+    );
+
+    expect(() =>
+      reportViolation(frag, context, "discardAttribute"),
+    ).not.toThrow();
+  });
+
+  it("reports the path, tag and action along with the context", () => {
+    const frag: Htmlparser2TreeAdapterMap["documentFragment"] = parseFragment(
+      '<div onclick="alert(1)"></div>',
+      { treeAdapter: adapter },
+    );
+    const div = frag.children[0] as Htmlparser2TreeAdapterMap["element"];
+    const violations: SanitizationViolation[] = [];
+
+    withViolationReporter(
+      (violation) => violations.push(violation),
+      () => reportViolation(div, context, "discardAttribute"),
+    );
+
+    expect(violations).toEqual([
+      { ...context, action: "discardAttribute", path: "/div[0]", tag: "div" },
+    ]);
+  });
+});
+
+describe("withViolationReporter", () => {
+  it("returns the callback result and only notifies the innermost reporter", () => {
+    const frag: Htmlparser2TreeAdapterMap["documentFragment"] = parseFragment(
+      "<div></div>",
+      { treeAdapter: adapter },
+    );
+    const outer = vi.fn();
+    const inner = vi.fn();
+
+    const result = withViolationReporter(outer, () => {
+      withViolationReporter(inner, () =>
+        reportViolation(frag, context, "discardAttribute"),
+      );
+      withViolationReporter(undefined, () =>
+        reportViolation(frag, context, "discardAttribute"),
+      );
+      return "done";
+    });
+
+    expect(result).toBe("done");
+    expect(inner).toHaveBeenCalledTimes(1);
+    expect(outer).not.toHaveBeenCalled();
+  });
+
+  it("restores the outer reporter when the callback throws", () => {
+    const frag: Htmlparser2TreeAdapterMap["documentFragment"] = parseFragment(
+      "<div></div>",
+      { treeAdapter: adapter },
+    );
+    const outer = vi.fn();
+
+    withViolationReporter(outer, () => {
+      expect(() =>
+        withViolationReporter(undefined, () => {
+          throw new Error("boom");
+        }),
+      ).toThrow("boom");
+      reportViolation(frag, context, "discardAttribute");
+    });
+
+    expect(outer).toHaveBeenCalledTimes(1);
+  });
+});
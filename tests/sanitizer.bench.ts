@@ -0,0 +1,25 @@
+import { bench, describe } from "vitest";
+
+import { createSanitizer, sanitizeHtml } from "../src";
+import { benchOptions as options } from "./bench-options";
+
+const comment = `
+<p>Thanks for the <b>great</b> write-up! See <a href="https://example.com/post?id=42" rel="nofollow ugc" onclick="steal()">my post</a>.</p>
+<ul>
+  <li><span class="token-1 token-49 unknown">First</span> point</li>
+  <li>Second <em>point</em> with <code>code</code></li>
+</ul>
+<blockquote><p>Quoted <i>text</i><script>alert(1)</script></p></blockquote>
+`.repeat(4);
+
+const sanitize = createSanitizer(options);
+
+describe("sanitize a comment", () => {
+  bench("sanitizeHtml", () => {
+    sanitizeHtml(comment, options);
+  });
+
+  bench("createSanitizer", () => {
+    sanitize(comment);
+  });
+});
@@ -7,13 +7,20 @@ import { beforeEach, describe, expect, it } from "vitest";
 
 import {
   enforceRequiredAttributes,
+  getAttributeRule,
+  getAttributeRules,
+  getTagRule,
   sanitizeAttributes,
   sanitizeTag,
   sanitizeTagAttribute,
   sanitizeTagAttributeRecordValue,
   sanitizeTagAttributeSetValue,
   sanitizeTagAttributeSimpleValue,
+  sanitizeTagAttributeSrcsetValue,
+  sanitizeTagAttributeStyleValue,
+  sanitizeTagAttributeUrlValue,
   sanitizeTagAttributeValue,
+  transformTag,
 } from "../src/lib/sanitizers";
 
 describe("enforceRequiredAttributes", () => {
@@ -73,6 +80,125 @@ describe("enforceRequiredAttributes", () => {
   });
 });
 
+describe("getAttributeRule", () => {
+  const any = { mode: "simple", value: "*" } as const;
+  const exact = { mode: "simple", value: "exact" } as const;
+  const prefix = { mode: "simple", value: "prefix" } as const;
+  const suffix = { mode: "simple", value: "suffix" } as const;
+  const pattern = { mode: "simple", value: "pattern" } as const;
+
+  it("prefers exact names over globs, patterns and the wildcard", () => {
+    const rules = { "*": any, "data-*": prefix, "data-id": exact };
+
+    expect(
+      getAttributeRule(
+        rules,
+        [{ pattern: /^data-/, rule: pattern }],
+        "data-id",
+      ),
+    ).toBe(exact);
+  });
+
+  it("resolves conflicting globs in key order, before patterns", () => {
+    const rules = { "*": any, "*-id": suffix, "data-*": prefix };
+    const patterns = [{ pattern: /^data-/, rule: pattern }];
+
+    expect(getAttributeRule(rules, patterns, "data-id")).toBe(suffix);
+    expect(getAttributeRule(rules, patterns, "data-role")).toBe(prefix);
+    expect(getAttributeRule({ "*": any }, patterns, "data-role")).toBe(pattern);
+    expect(getAttributeRule(rules, patterns, "title")).toBe(any);
+  });
+
+  it("resolves global rules after the named rules of the tag and before its wildcard", () => {
+    const globalRules = { "*": any, "aria-*": prefix, id: exact };
+
+    expect(getAttributeRule({ "*": any }, [], "id", globalRules)).toBe(exact);
+    expect(getAttributeRule({ "*": any }, [], "aria-label", globalRules)).toBe(
+      prefix,
+    );
+    expect(getAttributeRule({ id: suffix }, [], "id", globalRules)).toBe(
+      suffix,
+    );
+    expect(
+      getAttributeRule(
+        {},
+        [{ pattern: /^i/, rule: pattern }],
+        "id",
+        globalRules,
+      ),
+    ).toBe(pattern);
+    expect(getAttributeRule({ "*": suffix }, [], "title", globalRules)).toBe(
+      suffix,
+    );
+    expect(getAttributeRule({}, [], "title", globalRules)).toBe(any);
+  });
+
+  it("returns undefined without a matching rule", () => {
+    expect(
+      getAttributeRule({ "data-*": prefix }, [], "aria-label"),
+    ).toBeUndefined();
+    expect(getAttributeRule(undefined, undefined, "id")).toBeUndefined();
+  });
+});
+
+describe("getAttributeRules", () => {
+  const globalAttributes = {
+    id: { mode: "simple", value: "*" },
+    title: { mode: "simple", value: "*" },
+  } as const;
+
+  it("merges tag rules over global rules", () => {
+    const id = { mode: "simple", value: /^[a-z]+$/ } as const;
+
+    expect(getAttributeRules(globalAttributes, { id })).toEqual({
+      id,
+      title: globalAttributes.title,
+    });
+  });
+
+  it("reuses the merged rules", () => {
+    const attributes = { lang: { mode: "simple", value: "*" } } as const;
+
+    expect(getAttributeRules(globalAttributes, attributes)).toBe(
+      getAttributeRules(globalAttributes, attributes),
+    );
+  });
+
+  it("returns either rules when the other is missing", () => {
+    const attributes = {};
+
+    expect(getAttributeRules(globalAttributes, undefined)).toBe(
+      globalAttributes,
+    );
+    expect(getAttributeRules(undefined, attributes)).toBe(attributes);
+  });
+});
+
+describe("getTagRule", () => {
+  const exact = {};
+  const glob = {};
+  const pattern = {};
+  const wildcard = {};
+
+  it("resolves exact, glob, pattern and wildcard rules in order", () => {
+    const options = {
+      tagPatterns: [{ pattern: /^x-/, rule: pattern }],
+      tags: { "*": wildcard, "x-*-card": glob, "x-user-card": exact },
+    };
+
+    expect(getTagRule(options, "x-user-card")).toBe(exact);
+    expect(getTagRule(options, "x-team-card")).toBe(glob);
+    expect(getTagRule(options, "x-team-list")).toBe(pattern);
+    expect(getTagRule(options, "div")).toBe(wildcard);
+  });
+
+  it("returns undefined without a matching rule", () => {
+    expect(getTagRule({ tags: { "h?": {} } }, "h12")).toBeUndefined();
+    expect(getTagRule({ tags: {} }, "constructor")).toBeUndefined();
+    expect(getTagRule({}, "div")).toBeUndefined();
+  });
+});
+
 describe("sanitizeAttributes", () => {
   let base: Htmlparser2TreeAdapterMap["element"];
   let el: Htmlparser2TreeAdapterMap["element"];
@@ -527,6 +653,25 @@ describe("sanitizeTagAttributeRecordValue", () => {
     expect(el.attribs.record).toBe("key1=value1,key2=value2");
   });
 
+  it("ignores keys inherited from the prototype", () => {
+    const value = "constructor=evil,key1=value1";
+
+    const result = sanitizeTagAttributeRecordValue(
+      { key: "record", value },
+      el,
+      {
+        entrySeparator: ",",
+        keyValueSeparator: "=",
+        mode: "record",
+        values: { key1: "value1" },
+      },
+      { attributeRecordValue: "dropPair" },
+    );
+
+    expect(result).toBe(true);
+    expect(el.attribs.record).toBe("key1=value1");
+  });
+
   it("handles maxEntries exceeded with dropExtra", () => {
     el.attribs.record = "key1=value1,key2=value2,key3=value3";
 
@@ -868,6 +1013,358 @@ describe("sanitizeTagAttributeSimpleValue", () => {
   });
 });
 
+describe("sanitizeTagAttributeSrcsetValue", () => {
+  let base: Htmlparser2TreeAdapterMap["element"];
+  let el: Htmlparser2TreeAdapterMap["element"];
+
+  beforeEach(() => {
+    base = adapter.createElement("root", html.NS.HTML, []);
+    el = adapter.createElement("img", html.NS.HTML, []);
+    adapter.appendChild(base, el);
+  });
+
+  it("keeps valid candidates and re-serializes them", () => {
+    const value = " /a.png 480w,https://cdn.example.com/b.png   1080w ";
+
+    expect(
+      sanitizeTagAttributeSrcsetValue({ key: "srcset", value }, el, {
+        allowRelative: true,
+        hosts: ["cdn.example.com"],
+        mode: "srcset",
+      }),
+    ).toBe(true);
+    expect(el.attribs.srcset).toBe(
+      "/a.png 480w, https://cdn.example.com/b.png 1080w",
+    );
+  });
+
+  it("drops candidates with disallowed URLs or invalid descriptors", () => {
+    const value =
+      "a.png, b.png 1.5x, javascript:alert(1) 2x, c.png 0w, d.png 2q, e.png 1x 2x, f.png 100w, https://evil.com/g.png 3x";
+
+    expect(
+      sanitizeTagAttributeSrcsetValue(
+        { key: "srcset", value },
+        el,
+        {
+          allowRelative: true,
+          descriptors: ["density"],
+          hosts: ["example.com"],
+          mode: "srcset",
+          protocols: ["https"],
+        },
+        { attributeSrcsetValue: "dropCandidate" },
+      ),
+    ).toBe(true);
+    expect(el.attribs.srcset).toBe("a.png, b.png 1.5x");
+  });
+
+  it("splits whitespace-separated URLs with the urls format", () => {
+    const value =
+      " https://stats.example.com/a\nhttps://evil.com/b  /c javascript:alert(1) ";
+
+    expect(
+      sanitizeTagAttributeSrcsetValue(
+        { key: "ping", value },
+        el,
+        {
+          allowRelative: true,
+          format: "urls",
+          hosts: ["stats.example.com"],
+          mode: "srcset",
+        },
+        { attributeSrcsetValue: "dropCandidate" },
+      ),
+    ).toBe(true);
+    expect(el.attribs.ping).toBe("https://stats.example.com/a /c");
+  });
+
+  it("escalates to attribute value error handling", () => {
+    el.attribs.srcset = "javascript:alert(1) 2x";
+
+    expect(
+      sanitizeTagAttributeSrcsetValue(
+        { key: "srcset", value: "javascript:alert(1) 2x" },
+        el,
+        { mode: "srcset", protocols: ["https"] },
+        { attributeSrcsetValue: "discardElement" },
+      ),
+    ).toBe(false);
+    expect(base.children).toHaveLength(0);
+  });
+});
+
+describe("sanitizeTagAttributeStyleValue", () => {
+  let base: Htmlparser2TreeAdapterMap["element"];
+  let el: Htmlparser2TreeAdapterMap["element"];
+
+  beforeEach(() => {
+    base = adapter.createElement("root", html.NS.HTML, []);
+    el = adapter.createElement("test", html.NS.HTML, []);
+    adapter.appendChild(base, el);
+  });
+
+  it("ignores properties inherited from the prototype", () => {
+    const value = "constructor: evil; color: red";
+
+    const result = sanitizeTagAttributeStyleValue(
+      { key: "style", value },
+      el,
+      { mode: "style", properties: { color: "*" } },
+      { attributeStyleValue: "dropDeclaration" },
+    );
+
+    expect(result).toBe(true);
+    expect(el.attribs.style).toBe("color:red");
+  });
+
+  it("keeps allowed declarations and re-serializes them", () => {
+    const value = "color: red; /* comment */ background: url(data:x;y)";
+    el.attribs.style = value;
+
+    const rule = {
+      mode: "style" as const,
+      properties: {
+        background: /^url\(data:/,
+        color: ["red", "blue"],
+      },
+    };
+
+    const result = sanitizeTagAttributeStyleValue(
+      { key: "style", value },
+      el,
+      rule,
+    );
+
+    expect(result).toBe(true);
+    expect(el.attribs.style).toBe("color:red;background:url(data:x;y)");
+  });
+
+  it("drops disallowed properties and values", () => {
+    const value = "color: green; position: fixed; text-align: left";
+    el.attribs.style = value;
+
+    const rule = {
+      mode: "style" as const,
+      properties: {
+        color: ["red"],
+        "text-align": "*",
+      },
+    };
+
+    const result = sanitizeTagAttributeStyleValue(
+      { key: "style", value },
+      el,
+      rule,
+      { attributeStyleValue: "dropDeclaration" },
+    );
+
+    expect(result).toBe(true);
+    expect(el.attribs.style).toBe("text-align:left");
+  });
+
+  it("drops important declarations unless allowed", () => {
+    const value = "color: red !important";
+    el.attribs.style = value;
+
+    const rule = {
+      mode: "style" as const,
+      properties: { color: "*" },
+    };
+
+    sanitizeTagAttributeStyleValue({ key: "style", value }, el, rule, {
+      attributeStyleValue: "dropDeclaration",
+    });
+    expect(el.attribs.style).toBe("");
+
+    sanitizeTagAttributeStyleValue(
+      { key: "style", value },
+      el,
+      { ...rule, allowImportant: true },
+      { attributeStyleValue: "dropDeclaration" },
+    );
+    expect(el.attribs.style).toBe("color:red !important");
+  });
+
+  it("handles declaration error with discardElement", () => {
+    const value = "position: fixed";
+    el.attribs.style = value;
+
+    const rule = {
+      mode: "style" as const,
+      properties: { color: "*" },
+    };
+
+    const result = sanitizeTagAttributeStyleValue(
+      { key: "style", value },
+      el,
+      rule,
+      { attributeStyleValue: "discardElement" },
+    );
+
+    expect(result).toBe(false);
+    expect(base.children).toHaveLength(0);
+  });
+
+  it("handles unparsable value with attribute value error handling", () => {
+    const value = "color: red; }";
+    el.attribs.style = value;
+
+    const rule = {
+      defaultValue: "color:black",
+      mode: "style" as const,
+      properties: { color: "*" },
+    };
+
+    const result = sanitizeTagAttributeStyleValue(
+      { key: "style", value },
+      el,
+      rule,
+      { attributeValue: "applyDefaultValue" },
+    );
+
+    expect(result).toBe(true);
+    expect(el.attribs.style).toBe("color:black");
+  });
+
+  it("throws by default on unparsable value", () => {
+    expect(() =>
+      sanitizeTagAttributeStyleValue(
+        { key: "style", value: "color: 'unclosed" },
+        el,
+        { mode: "style" as const, properties: { color: "*" } },
+      ),
+    ).toThrow(/is not a valid declaration list/);
+  });
+});
+
+describe("sanitizeTagAttributeUrlValue", () => {
+  let base: Htmlparser2TreeAdapterMap["element"];
+  let el: Htmlparser2TreeAdapterMap["element"];
+
+  beforeEach(() => {
+    base = adapter.createElement("root", html.NS.HTML, []);
+    el = adapter.createElement("test", html.NS.HTML, []);
+    adapter.appendChild(base, el);
+  });
+
+  it("accepts allowed protocol and host", () => {
+    el.attribs.href = "https://example.com";
+
+    const rule = {
+      hosts: ["example.com"],
+      mode: "url" as const,
+      protocols: ["https"],
+    };
+
+    const result = sanitizeTagAttributeUrlValue(
+      { key: "href", value: "https://example.com" },
+      el,
+      rule,
+    );
+
+    expect(result).toBe(true);
+    expect(el.attribs.href).toBe("https://example.com");
+  });
+
+  it("handles disallowed protocol", () => {
+    el.attribs.href = "javascript:alert(1)";
+
+    const rule = {
+      mode: "url" as const,
+      protocols: ["http", "https"],
+    };
+
+    const result = sanitizeTagAttributeUrlValue(
+      { key: "href", value: "javascript:alert(1)" },
+      el,
+      rule,
+      "discardAttribute",
+    );
+
+    expect(result).toBe(true);
+    expect(el.attribs.href).toBeUndefined();
+  });
+
+  it("handles disallowed host with default value", () => {
+    el.attribs.href = "https://evil.com";
+
+    const rule = {
+      defaultValue: "https://example.com",
+      hosts: ["example.com"],
+      mode: "url" as const,
+    };
+
+    const result = sanitizeTagAttributeUrlValue(
+      { key: "href", value: "https://evil.com" },
+      el,
+      rule,
+      "applyDefaultValue",
+    );
+
+    expect(result).toBe(true);
+    expect(el.attribs.href).toBe("https://example.com");
+  });
+
+  it("accepts relative URLs only when allowed", () => {
+    el.attribs.href = "/path";
+
+    const rule = {
+      allowRelative: true,
+      mode: "url" as const,
+    };
+
+    expect(
+      sanitizeTagAttributeUrlValue({ key: "href", value: "/path" }, el, rule),
+    ).toBe(true);
+    expect(el.attribs.href).toBe("/path");
+
+    expect(
+      sanitizeTagAttributeUrlValue(
+        { key: "href", value: "/path" },
+        el,
+        { mode: "url" as const },
+        "discardAttribute",
+      ),
+    ).toBe(true);
+    expect(el.attribs.href).toBeUndefined();
+  });
+
+  it("handles schemes obfuscated with control characters", () => {
+    el.attribs.href = "java\tscript:alert(1)";
+
+    const result = sanitizeTagAttributeUrlValue(
+      { key: "href", value: "java\tscript:alert(1)" },
+      el,
+      { allowRelative: true, mode: "url" as const, protocols: ["https"] },
+      "discardAttribute",
+    );
+
+    expect(result).toBe(true);
+    expect(el.attribs.href).toBeUndefined();
+  });
+
+  it("throws by default on invalid value", () => {
+    expect(() =>
+      sanitizeTagAttributeUrlValue(
+        { key: "href", value: "ftp://example.com" },
+        el,
+        { mode: "url" as const, protocols: ["https"] },
+      ),
+    ).toThrow(/URL ftp:\/\/example\.com for attribute href is not allowed/);
+  });
+
+  it("throws on invalid rule configuration", () => {
+    expect(() =>
+      sanitizeTagAttributeUrlValue(
+        { key: "href", value: "https://example.com" },
+        el,
+        { hosts: ["-bad.com"], mode: "url" as const },
+      ),
+    ).toThrow(/Invalid host/);
+  });
+});
+
 describe("sanitizeTagAttributeValue", () => {
   let base: Htmlparser2TreeAdapterMap["element"];
   let el: Htmlparser2TreeAdapterMap["element"];
@@ -957,6 +1454,45 @@ describe("sanitizeTagAttributeValue", () => {
     expect(el.attribs.simple).toBe("valid");
   });
 
+  it("handles style mode", () => {
+    el.attribs.style = "color: red; position: fixed";
+
+    const rule = {
+      mode: "style" as const,
+      properties: { color: "*" },
+    };
+
+    const result = sanitizeTagAttributeValue(
+      { key: "style", value: "color: red; position: fixed" },
+      el,
+      rule,
+      { attributeStyleValue: "dropDeclaration" },
+    );
+
+    expect(result).toBe(true);
+    expect(el.attribs.style).toBe("color:red");
+  });
+
+  it("handles url mode", () => {
+    el.attribs.url = "http://example.com";
+
+    const rule = {
+      hosts: ["example.com"],
+      mode: "url" as const,
+      protocols: ["https"],
+    };
+
+    const result = sanitizeTagAttributeValue(
+      { key: "url", value: "http://example.com" },
+      el,
+      rule,
+      { attributeUrlValue: "discardAttribute" },
+    );
+
+    expect(result).toBe(true);
+    expect(el.attribs.url).toBeUndefined();
+  });
+
   it("handles maxLength with empty result after truncation", () => {
     el.attribs.long = "very long value";
 
@@ -999,3 +1535,42 @@ describe("sanitizeTagAttributeValue", () => {
     expect(el.attribs.long).toBeUndefined();
   });
 });
+
+describe("transformTag", () => {
+  let el: Htmlparser2TreeAdapterMap["element"];
+
+  beforeEach(() => {
+    el = adapter.createElement("ol", html.NS.HTML, [
+      { name: "start", value: "3" },
+      { name: "class", value: "list" },
+    ]);
+  });
+
+  it("renames the element", () => {
+    transformTag(el, { tagName: "ul" });
+
+    expect(el.tagName).toBe("ul");
+    expect(el.attribs).toEqual({ class: "list", start: "3" });
+  });
+
+  it("sets and removes attributes", () => {
+    transformTag(el, {
+      attributes: { class: "steps", reversed: "", start: null },
+    });
+
+    expect(el.attribs).toEqual({ class: "steps", reversed: "" });
+  });
+
+  it("runs the callback last", () => {
+    transformTag(el, {
+      attributes: { class: "steps" },
+      callback: (element) => {
+        element.attribs["data-tag"] =
+          `${element.tagName}.${element.attribs.class}`;
+      },
+      tagName: "ul",
+    });
+
+    expect(el.attribs["data-tag"]).toBe("ul.steps");
+  });
+});
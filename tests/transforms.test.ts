@@ -0,0 +1,118 @@
+import { html } from "parse5";
+import { adapter } from "parse5-htmlparser2-tree-adapter";
+import { describe, expect, it } from "vitest";
+
+import { urlTransforms } from "../src/lib/transforms";
+
+const createLink = (attributes: Record<string, string> = {}) =>
+  adapter.createElement(
+    "a",
+    html.NS.HTML,
+    Object.entries(attributes).map(([name, value]) => ({ name, value })),
+  );
+
+describe("urlTransforms", () => {
+  describe("externalLinks", () => {
+    it("sets rel and target on links to other hosts", () => {
+      const transform = urlTransforms.externalLinks({ hosts: ["example.com"] });
+      const element = createLink({ rel: "nofollow noopener" });
+
+      expect(
+        transform("https://other.com/x", { attribute: "href", element }),
+      ).toBe("https://other.com/x");
+      expect(element.attribs).toEqual({
+        rel: "nofollow noopener noreferrer",
+        target: "_blank",
+      });
+    });
+
+    it("leaves internal, relative and hostless links untouched", () => {
+      const transform = urlTransforms.externalLinks({ hosts: ["Example.com"] });
+
+      for (const url of ["https://example.com/x", "/x", "#top", "mailto:a"]) {
+        const element = createLink();
+        transform(url, { attribute: "href", element });
+        expect(element.attribs, url).toEqual({});
+      }
+    });
+
+    it("uses custom rel tokens and can leave target untouched", () => {
+      const transform = urlTransforms.externalLinks({
+        rel: "nofollow",
+        target: null,
+      });
+      const element = createLink();
+
+      transform("//other.com", { attribute: "href", element });
+      expect(element.attribs).toEqual({ rel: "nofollow" });
+    });
+  });
+
+  describe("proxy", () => {
+    const transform = urlTransforms.proxy("https://proxy.example.com/?url=");
+    const context = { attribute: "src", element: createLink() };
+
+    it("routes absolute web URLs through the proxy", () => {
+      expect(transform("https://cdn.com/a.png?s=1", context)).toBe(
+        "https://proxy.example.com/?url=https%3A%2F%2Fcdn.com%2Fa.png%3Fs%3D1",
+      );
+    });
+
+    it("leaves relative, proxied and other URLs untouched", () => {
+      expect(transform("/a.png", context)).toBe("/a.png");
+      expect(transform("data:image/png,x", context)).toBe("data:image/png,x");
+      expect(
+        transform("https://proxy.example.com/?url=https%3A%2F%2Fx", context),
+      ).toBe("https://proxy.example.com/?url=https%3A%2F%2Fx");
+    });
+  });
+
+  describe("stripQueryParameters", () => {
+    const context = { attribute: "href", element: createLink() };
+
+    it("removes tracking parameters by default", () => {
+      const transform = urlTransforms.stripQueryParameters();
+
+      expect(
+        transform(
+          "https://example.com/?utm_source=x&id=1&fbclid=y&utm_medium=z#top",
+          context,
+        ),
+      ).toBe("https://example.com/?id=1#top");
+      expect(transform("/page?utm_source=x#top", context)).toBe("/page#top");
+      expect(transform("/page#?utm_source=x", context)).toBe(
+        "/page#?utm_source=x",
+      );
+    });
+
+    it("removes parameters matching the given globs", () => {
+      const transform = urlTransforms.stripQueryParameters(["ref", "mc_?id"]);
+
+      expect(
+        transform("/?ref=a&mc_cid=b&mc_eid=c&%72ef=d&utm_source=e", context),
+      ).toBe("/?utm_source=e");
+    });
+  });
+
+  describe("upgradeToHttps", () => {
+    const transform = urlTransforms.upgradeToHttps();
+    const context = { attribute: "href", element: createLink() };
+
+    it("upgrades http URLs", () => {
+      expect(transform("http://example.com:8080/a?b#c", context)).toBe(
+        "https://example.com:8080/a?b#c",
+      );
+      expect(transform("HTTP://example.com", context)).toBe(
+        "https://example.com/",
+      );
+    });
+
+    it("leaves other URLs untouched", () => {
+      expect(transform("https://example.com", context)).toBe(
+        "https://example.com",
+      );
+      expect(transform("//example.com", context)).toBe("//example.com");
+      expect(transform("/http:", context)).toBe("/http:");
+    });
+  });
+});
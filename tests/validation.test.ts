@@ -0,0 +1,364 @@
+import { describe, expect, it } from "vitest";
+
+import { validateSanitizerOptions } from "../src/lib/validation";
+
+describe("validateSanitizerOptions", () => {
+  it("returns no diagnostics for valid options", () => {
+    const diagnostics = validateSanitizerOptions({
+      tags: {
+        a: {
+          attributes: {
+            href: {
+              hosts: ["example.com", "[::1]"],
+              mode: "url",
+              protocols: ["https"],
+              required: true,
+            },
+          },
+          limits: { children: 5, nesting: 2 },
+        },
+        div: {
+          attributes: {
+            "*": { maxLength: 100, mode: "simple", value: "*" },
+            class: { delimiter: " ", maxEntries: 3, mode: "set", values: "*" },
+            style: { mode: "style", properties: { "--gap": "*", color: "*" } },
+          },
+        },
+      },
+      topLevelLimits: { children: 10 },
+    });
+
+    expect(diagnostics).toEqual([]);
+  });
+
+  it("reports empty and conflicting separators", () => {
+    const diagnostics = validateSanitizerOptions({
+      tags: {
+        div: {
+          attributes: {
+            class: { delimiter: "", mode: "set", values: "*" },
+            "data-a": {
+              entrySeparator: "",
+              keyValueSeparator: ":",
+              mode: "record",
+              values: {},
+            },
+            "data-b": {
+              entrySeparator: ";",
+              keyValueSeparator: ";",
+              mode: "record",
+              values: {},
+            },
+          },
+        },
+      },
+    });
+
+    expect(diagnostics.map(({ code, path }) => ({ code, path }))).toEqual([
+      { code: "EMPTY_SEPARATOR", path: "/tags/div/attributes/class/delimiter" },
+      {
+        code: "EMPTY_SEPARATOR",
+        path: "/tags/div/attributes/data-a/entrySeparator",
+      },
+      {
+        code: "CONFLICTING_SEPARATORS",
+        path: "/tags/div/attributes/data-b/keyValueSeparator",
+      },
+    ]);
+  });
+
+  it("reports limits that are not positive integers", () => {
+    const diagnostics = validateSanitizerOptions({
+      tags: {
+        p: {
+          attributes: { title: { maxLength: 0, mode: "simple", value: "*" } },
+          limits: { children: -1, nesting: 1.5 },
+        },
+      },
+      text: { maxLength: -5 },
+      topLevelLimits: { nesting: 0 },
+    });
+
+    expect(diagnostics).toEqual([
+      {
+        code: "INVALID_LIMIT",
+        message: "Limit of 0 is ignored, omit it to disable the limit",
+        path: "/tags/p/attributes/title/maxLength",
+        severity: "error",
+      },
+      {
+        code: "INVALID_LIMIT",
+        message: "Limit -1 must be a positive integer",
+        path: "/tags/p/limits/children",
+        severity: "error",
+      },
+      {
+        code: "INVALID_LIMIT",
+        message: "Limit 1.5 must be a positive integer",
+        path: "/tags/p/limits/nesting",
+        severity: "error",
+      },
+      {
+        code: "INVALID_LIMIT",
+        message: "Limit -5 must be a positive integer",
+        path: "/text/maxLength",
+        severity: "error",
+      },
+      {
+        code: "INVALID_LIMIT",
+        message: "Limit of 0 is ignored, omit it to disable the limit",
+        path: "/topLevelLimits/nesting",
+        severity: "error",
+      },
+    ]);
+  });
+
+  it("warns about ignored required flags and too long default values", () => {
+    const diagnostics = validateSanitizerOptions({
+      tags: {
+        img: {
+          attributes: {
+            "*": { mode: "simple", required: true, value: "*" },
+            alt: {
+              defaultValue: "image",
+              maxLength: 3,
+              mode: "simple",
+              value: "*",
+            },
+          },
+        },
+      },
+    });
+
+    expect(
+      diagnostics.map(({ code, path, severity }) => ({ code, path, severity })),
+    ).toEqual([
+      {
+        code: "REQUIRED_WILDCARD",
+        path: "/tags/img/attributes/*/required",
+        severity: "warning",
+      },
+      {
+        code: "DEFAULT_VALUE_TOO_LONG",
+        path: "/tags/img/attributes/alt/defaultValue",
+        severity: "warning",
+      },
+    ]);
+  });
+
+  it("reports invalid hosts and protocols", () => {
+    const diagnostics = validateSanitizerOptions({
+      tags: {
+        a: {
+          attributes: {
+            href: {
+              hosts: ["example.com", "example..com"],
+              mode: "url",
+              protocols: ["https:", "http"],
+            },
+          },
+        },
+      },
+    });
+
+    expect(diagnostics.map(({ code, path }) => ({ code, path }))).toEqual([
+      { code: "INVALID_PROTOCOL", path: "/tags/a/attributes/href/protocols/0" },
+      { code: "INVALID_HOST", path: "/tags/a/attributes/href/hosts/1" },
+    ]);
+  });
+
+  it("reports invalid hosts of srcset rules", () => {
+    const diagnostics = validateSanitizerOptions({
+      tags: {
+        img: {
+          attributes: { srcset: { hosts: ["bad_host"], mode: "srcset" } },
+        },
+      },
+    });
+
+    expect(diagnostics.map(({ code, path }) => ({ code, path }))).toEqual([
+      { code: "INVALID_HOST", path: "/tags/img/attributes/srcset/hosts/0" },
+    ]);
+  });
+
+  it("reports invalid ports and unreachable paths", () => {
+    const diagnostics = validateSanitizerOptions({
+      tags: {
+        a: {
+          attributes: {
+            href: { mode: "url", paths: ["/docs", "blog"], ports: [443, -1] },
+          },
+        },
+      },
+    });
+
+    expect(diagnostics.map(({ code, path }) => ({ code, path }))).toEqual([
+      { code: "INVALID_PORT", path: "/tags/a/attributes/href/ports/1" },
+      { code: "UNREACHABLE_PATH", path: "/tags/a/attributes/href/paths/1" },
+    ]);
+  });
+
+  it("reports invalid embed hosts and domains", () => {
+    const diagnostics = validateSanitizerOptions({
+      tags: {
+        iframe: {
+          embed: {
+            domains: ["youtube.com", "*.vimeo.com"],
+            hosts: ["*.youtube.com", "player..vimeo.com"],
+          },
+        },
+      },
+    });
+
+    expect(diagnostics.map(({ code, path }) => ({ code, path }))).toEqual([
+      { code: "INVALID_HOST", path: "/tags/iframe/embed/domains/1" },
+      { code: "INVALID_HOST", path: "/tags/iframe/embed/hosts/1" },
+    ]);
+  });
+
+  it("reports invalid script hosts and domains", () => {
+    const diagnostics = validateSanitizerOptions({
+      tags: {
+        script: { script: { domains: ["bad_domain"], hosts: ["*.cdn.com"] } },
+      },
+    });
+
+    expect(diagnostics.map(({ code, path }) => ({ code, path }))).toEqual([
+      { code: "INVALID_HOST", path: "/tags/script/script/domains/0" },
+    ]);
+  });
+
+  it("reports unknown modes and unreachable style properties", () => {
+    const diagnostics = validateSanitizerOptions({
+      tags: {
+        span: {
+          attributes: {
+            "data-x": { mode: "regex" } as never,
+            style: { mode: "style", properties: { Color: "*" } },
+          },
+        },
+      },
+    });
+
+    expect(diagnostics.map(({ code, path }) => ({ code, path }))).toEqual([
+      { code: "UNKNOWN_MODE", path: "/tags/span/attributes/data-x/mode" },
+      {
+        code: "UNREACHABLE_STYLE_PROPERTY",
+        path: "/tags/span/attributes/style/properties/Color",
+      },
+    ]);
+  });
+
+  it("reports transforms to tags without a rule", () => {
+    const diagnostics = validateSanitizerOptions({
+      tags: {
+        b: { transform: { tagName: "strong" } },
+        font: { transform: { tagName: "span" } },
+        strong: {},
+      },
+    });
+
+    expect(diagnostics.map(({ code, path }) => ({ code, path }))).toEqual([
+      {
+        code: "TRANSFORM_TARGET_NOT_ALLOWED",
+        path: "/tags/font/transform/tagName",
+      },
+    ]);
+  });
+
+  it("reports allowed parents transformed into another tag", () => {
+    const diagnostics = validateSanitizerOptions({
+      tags: {
+        li: { allowedParents: ["ul", "menu"] },
+        menu: { transform: { tagName: "ul" } },
+        ol: {},
+        ul: { transform: { tagName: "ol" } },
+      },
+    });
+
+    expect(diagnostics.map(({ code, path }) => ({ code, path }))).toEqual([
+      { code: "TRANSFORMED_PARENT", path: "/tags/li/allowedParents/0" },
+    ]);
+  });
+
+  it("resolves transform targets against glob, pattern and wildcard rules", () => {
+    expect(
+      validateSanitizerOptions({
+        tagPatterns: [{ pattern: /^h[1-6]$/, rule: {} }],
+        tags: {
+          a: { transform: { tagName: "x-link" } },
+          b: { transform: { tagName: "h2" } },
+          "x-*": {},
+        },
+      }),
+    ).toEqual([]);
+    expect(
+      validateSanitizerOptions({
+        tags: { "*": {}, font: { transform: { tagName: "span" } } },
+      }),
+    ).toEqual([]);
+  });
+
+  it("reports required glob and pattern attribute rules", () => {
+    const diagnostics = validateSanitizerOptions({
+      tags: {
+        div: {
+          attributePatterns: [
+            {
+              pattern: /^aria-/,
+              rule: { mode: "simple", required: true, value: "*" },
+            },
+          ],
+          attributes: {
+            "data-*": { mode: "simple", required: true, value: "*" },
+          },
+        },
+      },
+    });
+
+    expect(diagnostics.map(({ code, path }) => ({ code, path }))).toEqual([
+      {
+        code: "REQUIRED_WILDCARD",
+        path: "/tags/div/attributes/data-*/required",
+      },
+      {
+        code: "REQUIRED_WILDCARD",
+        path: "/tags/div/attributePatterns/0/rule/required",
+      },
+    ]);
+  });
+
+  it("validates global attribute rules", () => {
+    const diagnostics = validateSanitizerOptions({
+      globalAttributes: {
+        "data-*": { mode: "simple", required: true, value: "*" },
+        id: { maxLength: -1, mode: "simple", value: "*" },
+      },
+    });
+
+    expect(diagnostics.map(({ code, path }) => ({ code, path }))).toEqual([
+      { code: "REQUIRED_WILDCARD", path: "/globalAttributes/data-*/required" },
+      { code: "INVALID_LIMIT", path: "/globalAttributes/id/maxLength" },
+    ]);
+  });
+
+  it("validates the rules of tag patterns", () => {
+    const diagnostics = validateSanitizerOptions({
+      tagPatterns: [{ pattern: /^h[1-6]$/, rule: { limits: { nesting: 0 } } }],
+    });
+
+    expect(diagnostics[0].path).toBe("/tagPatterns/0/rule/limits/nesting");
+  });
+
+  it("escapes JSON pointer segments", () => {
+    const diagnostics = validateSanitizerOptions({
+      tags: {
+        "a/b": {
+          attributes: { "x~y": { maxLength: 0, mode: "simple", value: "*" } },
+        },
+      },
+    });
+
+    expect(diagnostics[0].path).toBe("/tags/a~1b/attributes/x~0y/maxLength");
+  });
+});
@@ -21,7 +21,7 @@ describe("walker", () => {
         },
       };
 
-      const state = { rootNesting: 0, tagNesting: [] };
+      const state = { rootNesting: 0, tagNesting: [], text: { length: 0 } };
 
       // Should not throw
       expect(() => {
@@ -45,7 +45,7 @@ describe("walker", () => {
         },
       };
 
-      const state = { rootNesting: 0, tagNesting: [] };
+      const state = { rootNesting: 0, tagNesting: [], text: { length: 0 } };
 
       // Should not throw
       expect(() => {
@@ -67,7 +67,7 @@ describe("walker", () => {
         },
       };
 
-      const state = { rootNesting: 0, tagNesting: [] };
+      const state = { rootNesting: 0, tagNesting: [], text: { length: 0 } };
 
       // Should not throw
       expect(() => {
@@ -89,7 +89,7 @@ describe("walker", () => {
         },
       };
 
-      const state = { rootNesting: 0, tagNesting: [] };
+      const state = { rootNesting: 0, tagNesting: [], text: { length: 0 } };
 
       // Should not throw
       expect(() => {
@@ -106,7 +106,7 @@ describe("walker", () => {
 
       const options = {};
 
-      const state = { rootNesting: 0, tagNesting: [] };
+      const state = { rootNesting: 0, tagNesting: [], text: { length: 0 } };
 
       // Should not throw
       expect(() => {
@@ -132,7 +132,7 @@ describe("walker", () => {
         },
       };
 
-      const state = { rootNesting: 0, tagNesting: [] };
+      const state = { rootNesting: 0, tagNesting: [], text: { length: 0 } };
 
       // Should throw due to children limit
       expect(() => {
@@ -157,7 +157,7 @@ describe("walker", () => {
         },
       };
 
-      const state = { rootNesting: 0, tagNesting: [] };
+      const state = { rootNesting: 0, tagNesting: [], text: { length: 0 } };
 
       // Should not throw
       expect(() => {
@@ -179,7 +179,7 @@ describe("walker", () => {
         },
       };
 
-      const state = { rootNesting: 0, tagNesting: [] };
+      const state = { rootNesting: 0, tagNesting: [], text: { length: 0 } };
 
       // Should throw due to disallowed script tag
       expect(() => {
@@ -211,7 +211,7 @@ describe("walker", () => {
         },
       };
 
-      const state = { rootNesting: 0, tagNesting: [] };
+      const state = { rootNesting: 0, tagNesting: [], text: { length: 0 } };
 
       // Should not throw
       expect(() => {
@@ -244,7 +244,7 @@ describe("walker", () => {
         },
       };
 
-      const state = { rootNesting: 0, tagNesting: [] };
+      const state = { rootNesting: 0, tagNesting: [], text: { length: 0 } };
 
       // Should not throw
       expect(() => {
@@ -272,7 +272,7 @@ describe("walker", () => {
         },
       };
 
-      const state = { rootNesting: 0, tagNesting: [] };
+      const state = { rootNesting: 0, tagNesting: [], text: { length: 0 } };
 
       // Should not throw
       expect(() => {
@@ -293,7 +293,7 @@ describe("walker", () => {
         },
       };
 
-      const state = { rootNesting: 0, tagNesting: [] };
+      const state = { rootNesting: 0, tagNesting: [], text: { length: 0 } };
 
       // Should not throw
       expect(() => {
@@ -322,7 +322,7 @@ describe("walker", () => {
         },
       };
 
-      const state = { rootNesting: 0, tagNesting: [] };
+      const state = { rootNesting: 0, tagNesting: [], text: { length: 0 } };
 
       // Should not throw
       expect(() => {
@@ -349,7 +349,7 @@ describe("walker", () => {
         },
       };
 
-      const state = { rootNesting: 2, tagNesting: [] }; // Already at nesting level 2
+      const state = { rootNesting: 2, tagNesting: [], text: { length: 0 } }; // Already at nesting level 2
 
       // Should not throw due to error handling
       expect(() => {
@@ -380,7 +380,7 @@ describe("walker", () => {
         },
       };
 
-      const state = { rootNesting: 0, tagNesting: [] };
+      const state = { rootNesting: 0, tagNesting: [], text: { length: 0 } };
 
       // Should not throw due to error handling
       expect(() => {
@@ -409,7 +409,7 @@ describe("walker", () => {
         },
       };
 
-      const state = { rootNesting: 0, tagNesting: [] };
+      const state = { rootNesting: 0, tagNesting: [], text: { length: 0 } };
 
       // Should not throw due to error handling
       expect(() => {
@@ -437,7 +437,11 @@ describe("walker", () => {
         },
       };
 
-      const state = { rootNesting: 0, tagNesting: [{ key: "div", value: 1 }] }; // Already nested once
+      const state = {
+        rootNesting: 0,
+        tagNesting: [{ key: "div", value: 1 }],
+        text: { length: 0 },
+      }; // Already nested once
 
       // Should not throw due to error handling
       expect(() => {
@@ -468,7 +472,7 @@ describe("walker", () => {
         },
       };
 
-      const state = { rootNesting: 0, tagNesting: [] };
+      const state = { rootNesting: 0, tagNesting: [], text: { length: 0 } };
 
       // Should not throw due to error handling
       expect(() => {